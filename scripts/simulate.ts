@@ -0,0 +1,102 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline simulation
+ * Runs the copy trader against the in-memory exchange with a scripted leader
+ * and price feed, then prints both books. Nothing is sent to Hyperliquid.
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Wallet } from 'ethers';
+
+const LEADER = '0x00000000000000000000000000000000000000aa';
+const OUR_ADDRESS = '0x00000000000000000000000000000000000000bb';
+
+// Configure before the config module loads, keeping journal and risk state out of data/
+const stateDir = mkdtempSync(join(tmpdir(), 'copy-sim-'));
+process.env.PRIVATE_KEY = Wallet.createRandom().privateKey;
+process.env.TARGET_WALLETS = JSON.stringify([{ address: LEADER }]);
+process.env.TESTNET = 'true';
+process.env.STATE_FILE = join(stateDir, 'trade-journal.jsonl');
+process.env.RISK_STATE_FILE = join(stateDir, 'risk-state.json');
+process.env.LOG_LEVEL ??= 'warn';
+delete process.env.TELEGRAM_BOT_TOKEN;
+
+const { config } = await import('../src/config.js');
+const { CopyTrader } = await import('../src/copyTrader.js');
+const { MockExchange } = await import('../src/exchange/mockExchange.js');
+type Side = import('../src/types.js').Side;
+
+/**
+ * One scripted step: move prices, or have the leader trade at the mid
+ */
+type Step = { prices: Record<string, number> } | { trade: [string, Side, number] };
+
+const script: Step[] = [
+  { trade: ['BTC', 'B', 0.5] },
+  { prices: { BTC: 61_000, ETH: 3_050 } },
+  { trade: ['ETH', 'A', 4] },
+  { trade: ['BTC', 'B', 0.25] },
+  { prices: { BTC: 62_500, ETH: 2_980 } },
+  { trade: ['BTC', 'A', 0.3] },
+  { trade: ['ETH', 'B', 6] }, // Flip short to long
+  { prices: { BTC: 61_800, ETH: 3_020 } },
+  { trade: ['BTC', 'A', 0.45] }, // Close
+];
+
+async function simulate(): Promise<void> {
+  const exchange = new MockExchange({
+    address: OUR_ADDRESS,
+    assets: [
+      { name: 'BTC', szDecimals: 5, maxLeverage: 40 },
+      { name: 'ETH', szDecimals: 4, maxLeverage: 25 },
+    ],
+    prices: { BTC: 60_000, ETH: 3_000 },
+    balances: { [LEADER]: 100_000, [OUR_ADDRESS]: 10_000 },
+  });
+
+  const copyTrader = new CopyTrader(exchange, config.LEADERS);
+  await copyTrader.start();
+
+  // Give coalesced fills time to flush before the next step
+  const settle = () => new Promise((resolve) => setTimeout(resolve, config.FILL_COALESCE_MS + 250));
+
+  for (const step of script) {
+    if ('prices' in step) {
+      for (const [coin, px] of Object.entries(step.prices)) {
+        exchange.setPrice(coin, px);
+      }
+      console.log('Prices', step.prices);
+    } else {
+      const [coin, side, sz] = step.trade;
+      const fill = exchange.trade(LEADER, coin, side, sz);
+      console.log(`Leader ${fill.dir} ${fill.sz} ${coin} @ ${fill.px}`);
+    }
+    await settle();
+  }
+
+  await copyTrader.stop();
+
+  for (const [label, address] of [
+    ['Leader', LEADER],
+    ['Us', OUR_ADDRESS],
+  ]) {
+    const [equity, positions] = await Promise.all([
+      exchange.getAccountEquity(address),
+      exchange.getPositions(address),
+    ]);
+    console.log(`\n${label}: account value $${equity.accountValue}`);
+    for (const position of positions) {
+      console.log(`  ${position.coin} ${position.szi} @ ${position.entryPx} (uPnL ${position.unrealizedPnl})`);
+    }
+  }
+
+  process.exit(0);
+}
+
+simulate().catch((error) => {
+  console.error('Simulation failed:', error);
+  process.exit(1);
+});
@@ -8,6 +8,8 @@
 import { existsSync } from 'fs';
 import { readFile } from 'fs/promises';
 import { config } from '../src/config.js';
+import { InfoClient } from '../src/hyperliquid/infoClient.js';
+import { RequestWeightLimiter } from '../src/utils/rateLimiter.js';
 
 async function validateSetup() {
   console.log('🔍 Validating setup...\n');
@@ -30,18 +32,26 @@ async function validateSetup() {
     console.log('✅ Configuration loaded successfully');
     console.log(`   Testnet: ${config.TESTNET}`);
     console.log(`   Dry Run: ${config.DRY_RUN}`);
-    console.log(`   Target Wallet: ${config.TARGET_WALLET.substring(0, 10)}...`);
+    for (const leader of config.LEADERS) {
+      console.log(
+        `   Leader: ${leader.address.substring(0, 10)}... (weight ${(leader.weight * 100).toFixed(0)}%, ${leader.sizeMultiplier}x)`
+      );
+    }
     console.log(`   Our Address: ${config.PRIVATE_KEY ? 'Set' : 'Missing'}`);
   } catch (error) {
     errors.push(`❌ Configuration validation failed: ${error}`);
   }
 
-  // Check SDK availability
+  // Check the Hyperliquid API is reachable
   try {
-    await import('@nktkas/hyperliquid');
-    console.log('✅ Hyperliquid SDK found');
+    const baseUrl = config.TESTNET
+      ? 'https://api.hyperliquid-testnet.xyz'
+      : 'https://api.hyperliquid.xyz';
+    const info = new InfoClient(baseUrl, new RequestWeightLimiter(config.REQUEST_WEIGHT_LIMIT));
+    const meta = await info.meta();
+    console.log(`✅ Hyperliquid API reachable (${meta.universe.length} perps)`);
   } catch (error) {
-    warnings.push('⚠️  Hyperliquid SDK not found. You may need to install it or adjust imports.');
+    warnings.push(`⚠️  Hyperliquid API not reachable: ${error}`);
   }
 
   // Check logs directory
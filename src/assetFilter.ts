@@ -0,0 +1,71 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { getMarketType } from './utils/risk.js';
+import { ErrorHandler } from './utils/errors.js';
+import type { AssetContext } from './types.js';
+
+/**
+ * How long fetched volume and open interest are reused
+ */
+const CONTEXT_TTL_MS = 60_000;
+
+/**
+ * Market eligibility for new positions
+ * Filters coins by market type and by 24h volume and open interest, so
+ * illiquid or newly listed coins the leader touches are not opened
+ */
+export class AssetFilter {
+  private client: ExchangeAdapter;
+  private contexts: Map<string, AssetContext> = new Map();
+  private contextsFetchedAt = 0;
+
+  constructor(client: ExchangeAdapter) {
+    this.client = client;
+  }
+
+  /**
+   * Why a coin may not be opened, or undefined when it is eligible
+   */
+  async getIneligibleReason(coin: string): Promise<string | undefined> {
+    const marketType = getMarketType(coin);
+    if (!config.MARKET_TYPES.includes(marketType)) {
+      return `${marketType} markets are not enabled`;
+    }
+
+    if (config.MIN_24H_VOLUME_USD <= 0 && config.MIN_OPEN_INTEREST_USD <= 0) {
+      return undefined;
+    }
+
+    const context = await this.getContext(coin);
+    if (!context) {
+      return 'No volume or open interest data';
+    }
+    if (context.dayNtlVlm < config.MIN_24H_VOLUME_USD) {
+      return `24h volume $${context.dayNtlVlm.toFixed(0)} below $${config.MIN_24H_VOLUME_USD} minimum`;
+    }
+    if (context.openInterestUsd < config.MIN_OPEN_INTEREST_USD) {
+      return `Open interest $${context.openInterestUsd.toFixed(0)} below $${config.MIN_OPEN_INTEREST_USD} minimum`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Cached market data for a coin
+   * Falls back to the last fetched data if a refresh fails
+   */
+  private async getContext(coin: string): Promise<AssetContext | undefined> {
+    if (Date.now() - this.contextsFetchedAt > CONTEXT_TTL_MS) {
+      try {
+        this.contexts = await this.client.getAssetContexts();
+        this.contextsFetchedAt = Date.now();
+      } catch (error) {
+        logger.warn('Failed to refresh asset contexts, using cached data', {
+          cached: this.contexts.size,
+          error: ErrorHandler.getErrorMessage(error),
+        });
+      }
+    }
+    return this.contexts.get(coin);
+  }
+}
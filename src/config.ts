@@ -4,6 +4,103 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+/**
+ * Parses a JSON-encoded env var and validates it against a schema
+ */
+function jsonEnv<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .string()
+    .transform((val, ctx) => {
+      try {
+        return JSON.parse(val) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+}
+
+/**
+ * Parses comma-separated UTC windows like "13:30-14:00,22:00-02:00" into
+ * minutes since midnight
+ * 24:00 is accepted as the end of the day; any other hour above 23 is rejected
+ */
+function timeWindowsEnv() {
+  const isTimeOfDay = (hour: number, minute: number) =>
+    (hour <= 23 && minute <= 59) || (hour === 24 && minute === 0);
+
+  return z
+    .string()
+    .default('')
+    .transform((val, ctx) =>
+      val
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+        .map((window) => {
+          const match = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/.exec(window);
+          const [startH, startM, endH, endM] = (match?.slice(1) ?? []).map(Number);
+          if (!match || !isTimeOfDay(startH, startM) || !isTimeOfDay(endH, endM)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Invalid time window "${window}", expected HH:MM-HH:MM`,
+            });
+            return z.NEVER;
+          }
+          return { start: startH * 60 + startM, end: endH * 60 + endM };
+        })
+    );
+}
+
+/**
+ * Which sides of the leader's trades are copied, and whether they are inverted
+ */
+const directionModeSchema = z.enum(['both', 'long_only', 'short_only', 'inverse']);
+
+/**
+ * Per-coin entry in ASSET_OVERRIDES
+ */
+const assetOverrideSchema = z.object({
+  direction: directionModeSchema.optional(),
+  sizeMultiplier: z.number().positive().optional(),
+  maxLeverage: z.number().positive().optional(),
+  maxNotional: z.number().positive().optional(),
+  executionStrategy: z.enum(['market', 'ioc', 'post_only']).optional(),
+});
+
+/**
+ * Coin cluster entry in COIN_CLUSTERS
+ */
+const clusterSchema = z.object({
+  coins: z
+    .array(z.string())
+    .min(1)
+    .transform((coins) => coins.map((s) => s.trim().toUpperCase()).filter(Boolean)),
+  maxExposurePercent: z.number().positive(),
+});
+
+const sizingStrategySchema = z.enum([
+  'equityRatio',
+  'fixedUsd',
+  'fixedFraction',
+  'leverageMatched',
+  'volatilityTarget',
+]);
+
+/**
+ * Leader wallet entry for TARGET_WALLETS
+ */
+const leaderSchema = z.object({
+  address: z.string().min(1, 'Leader address is required'),
+  weight: z.number().positive().default(1),
+  sizeMultiplier: z.number().positive().default(1),
+  blockedAssets: z
+    .array(z.string())
+    .default([])
+    .transform((assets) => assets.map((s) => s.trim().toUpperCase()).filter(Boolean)),
+});
+
 /**
  * Configuration schema with zod validation
  * Ensures all required env vars are present and properly typed
@@ -11,7 +108,9 @@ dotenv.config();
 const configSchema = z.object({
   // Required
   PRIVATE_KEY: z.string().min(1, 'PRIVATE_KEY is required'),
-  TARGET_WALLET: z.string().min(1, 'TARGET_WALLET is required'),
+  // One of TARGET_WALLET (single leader) or TARGET_WALLETS (JSON array of leaders)
+  TARGET_WALLET: z.string().optional(),
+  TARGET_WALLETS: jsonEnv(z.array(leaderSchema).min(1)).optional(),
   TESTNET: z
     .string()
     .transform((val) => val.toLowerCase() === 'true')
@@ -23,11 +122,42 @@ const configSchema = z.object({
     .default('1.0')
     .transform(Number)
     .pipe(z.number().positive()),
+  SIZING_STRATEGY: sizingStrategySchema.default('equityRatio'),
+  // Per-coin sizing strategy, e.g. {"BTC":"fixedUsd","DOGE":"volatilityTarget"}
+  SIZING_STRATEGY_OVERRIDES: jsonEnv(z.record(sizingStrategySchema))
+    .default('{}')
+    .transform((overrides) =>
+      Object.fromEntries(
+        Object.entries(overrides).map(([coin, name]) => [coin.trim().toUpperCase(), name])
+      )
+    ),
+  FIXED_USD_SIZE: z
+    .string()
+    .default('100')
+    .transform(Number)
+    .pipe(z.number().positive()),
+  FIXED_FRACTION_PERCENT: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
+  VOLATILITY_TARGET_PERCENT: z
+    .string()
+    .default('1')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
   MAX_LEVERAGE: z
     .string()
     .default('20')
     .transform(Number)
     .pipe(z.number().min(1).max(100)),
+  // 'mirror' copies each leader's cross/isolated setting per coin
+  MARGIN_MODE: z.enum(['mirror', 'cross', 'isolated']).default('mirror'),
+  LEVERAGE_SYNC_INTERVAL: z
+    .string()
+    .default('60')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
   MAX_POSITION_SIZE_PERCENT: z
     .string()
     .default('50')
@@ -43,6 +173,208 @@ const configSchema = z.object({
     .default('10')
     .transform(Number)
     .pipe(z.number().int().positive()),
+  MAX_TOTAL_EXPOSURE_PERCENT: z
+    .string()
+    .default('300')
+    .transform(Number)
+    .pipe(z.number().positive()),
+  MAX_NET_EXPOSURE_PERCENT: z
+    .string()
+    .default('200')
+    .transform(Number)
+    .pipe(z.number().positive()),
+  MAX_COIN_EXPOSURE_PERCENT: z
+    .string()
+    .default('100')
+    .transform(Number)
+    .pipe(z.number().positive()),
+  // Named groups of coins sharing a gross exposure cap, e.g. {"majors":{"coins":["BTC","ETH"],"maxExposurePercent":150}}
+  COIN_CLUSTERS: jsonEnv(z.record(clusterSchema)).default('{}'),
+
+  // Liquidation guard
+  LIQUIDATION_BUFFER_PERCENT: z
+    .string()
+    .default('15')
+    .transform(Number)
+    .pipe(z.number().min(0).max(100)),
+  MAX_MARGIN_RATIO_PERCENT: z
+    .string()
+    .default('50')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
+  LIQUIDATION_WATCH_PERCENT: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().min(0).max(100)),
+  LIQUIDATION_REDUCE_PERCENT: z
+    .string()
+    .default('25')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
+  LIQUIDATION_CHECK_INTERVAL: z
+    .string()
+    .default('15')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+
+  // Account-level circuit breaker
+  MAX_DAILY_LOSS_PERCENT: z
+    .string()
+    .default('10')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
+  MAX_DRAWDOWN_PERCENT: z
+    .string()
+    .default('25')
+    .transform(Number)
+    .pipe(z.number().positive().max(100)),
+  FLATTEN_ON_TRIP: z
+    .string()
+    .default('false')
+    .transform((val) => val.toLowerCase() === 'true'),
+  RISK_CHECK_INTERVAL: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+
+  // Copy mode: mirror each fill, or reconcile towards the leaders' positions
+  COPY_MODE: z.enum(['mirror', 'reconcile']).default('mirror'),
+  RECONCILE_INTERVAL: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  RECONCILE_TOLERANCE_PERCENT: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().min(0).max(100)),
+
+  // Order throttling and churn detection
+  MAX_ORDERS_PER_MINUTE: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  MAX_ORDERS_PER_COIN_PER_MINUTE: z
+    .string()
+    .default('10')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  // A coin is churning after CHURN_CYCLE_THRESHOLD leader closes within CHURN_WINDOW_SECONDS
+  CHURN_WINDOW_SECONDS: z
+    .string()
+    .default('300')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  CHURN_CYCLE_THRESHOLD: z
+    .string()
+    .default('3')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  NET_SYNC_INTERVAL: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  // Request weight budget per minute, kept under Hyperliquid's 1200
+  REQUEST_WEIGHT_LIMIT: z
+    .string()
+    .default('1000')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+
+  // WebSocket heartbeat: ping every WS_PING_INTERVAL seconds, reconnect after WS_STALE_TIMEOUT seconds of silence
+  WS_PING_INTERVAL: z
+    .string()
+    .default('20')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  WS_STALE_TIMEOUT: z
+    .string()
+    .default('60')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  // Cap on the jittered reconnect backoff, in seconds
+  WS_RECONNECT_MAX_DELAY: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+
+  // Trading schedule: no new opens inside these UTC windows
+  BLACKOUT_WEEKENDS: z
+    .string()
+    .default('false')
+    .transform((val) => val.toLowerCase() === 'true'),
+  BLACKOUT_HOURS_UTC: timeWindowsEnv(),
+  // JSON array of scheduled events, e.g. [{"name":"FOMC","time":"2026-11-04T18:00:00Z"}]
+  BLACKOUT_CALENDAR_FILE: z.string().default(''),
+  BLACKOUT_EVENT_MINUTES: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().min(0)),
+
+  // Order execution
+  EXECUTION_STRATEGY: z.enum(['market', 'ioc', 'post_only']).default('market'),
+  MAX_SLIPPAGE_BPS: z
+    .string()
+    .default('50')
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  POST_ONLY_TIMEOUT_MS: z
+    .string()
+    .default('10000')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  // Resting orders untouched this long are cancelled, or re-priced at the mid up to MAX_ORDER_REPRICES times
+  STALE_ORDER_SECONDS: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  STALE_ORDER_ACTION: z.enum(['cancel', 'reprice']).default('cancel'),
+  MAX_ORDER_REPRICES: z
+    .string()
+    .default('3')
+    .transform(Number)
+    .pipe(z.number().int().min(0)),
+
+  // Stop-loss / take-profit on copied positions (distances are in units of PROTECTION_MODE, 0 disables)
+  PROTECTION_MODE: z.enum(['off', 'percent', 'atr', 'usd']).default('off'),
+  STOP_LOSS_DISTANCE: z
+    .string()
+    .default('0')
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  TAKE_PROFIT_DISTANCE: z
+    .string()
+    .default('0')
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  ATR_PERIOD: z
+    .string()
+    .default('14')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+  ATR_INTERVAL: z.enum(['1m', '5m', '15m', '1h', '4h', '1d']).default('1h'),
+  PROTECTION_SYNC_INTERVAL: z
+    .string()
+    .default('60')
+    .transform(Number)
+    .pipe(z.number().int().positive()),
+
+  // Window for coalescing partial fills of one leader order (0 disables)
+  FILL_COALESCE_MS: z
+    .string()
+    .default('500')
+    .transform(Number)
+    .pipe(z.number().int().min(0)),
+  // What to do with fills missed while the WebSocket was disconnected
+  BACKFILL_MODE: z.enum(['execute', 'skip', 'reconcile']).default('skip'),
 
   // Asset filtering
   BLOCKED_ASSETS: z
@@ -51,6 +383,46 @@ const configSchema = z.object({
     .transform((val) =>
       val.split(',').map((s) => s.trim().toUpperCase()).filter(Boolean)
     ),
+  // Copy both directions, only longs or shorts, or the inverse of the leader
+  DIRECTION_MODE: directionModeSchema.default('both'),
+  // When set, only these coins are copied
+  ALLOWED_ASSETS: z
+    .string()
+    .default('')
+    .transform((val) =>
+      val.split(',').map((s) => s.trim().toUpperCase()).filter(Boolean)
+    ),
+  // Per-coin multiplier, leverage, notional and execution overrides
+  ASSET_OVERRIDES: jsonEnv(z.record(assetOverrideSchema))
+    .default('{}')
+    .transform((overrides) =>
+      Object.fromEntries(
+        Object.entries(overrides).map(([coin, override]) => [coin.trim().toUpperCase(), override])
+      )
+    ),
+  MARKET_TYPES: z
+    .string()
+    .default('perp')
+    .transform((val) => val.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean))
+    .pipe(
+      z
+        .array(z.enum(['perp', 'spot', 'hip3']))
+        .min(1)
+        // Only the perp universe is loaded; spot and HIP-3 assets have their own IDs
+        .refine((types) => !types.some((type) => type !== 'perp'), {
+          message: 'Only perp markets are supported; spot and hip3 are not yet',
+        })
+    ),
+  MIN_24H_VOLUME_USD: z
+    .string()
+    .default('0')
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  MIN_OPEN_INTEREST_USD: z
+    .string()
+    .default('0')
+    .transform(Number)
+    .pipe(z.number().min(0)),
 
   // Safety features
   DRY_RUN: z
@@ -58,6 +430,8 @@ const configSchema = z.object({
     .default('false')
     .transform((val) => val.toLowerCase() === 'true')
     .pipe(z.boolean()),
+  STATE_FILE: z.string().default('data/trade-journal.jsonl'),
+  RISK_STATE_FILE: z.string().default('data/risk-state.json'),
   LOG_LEVEL: z
     .enum(['error', 'warn', 'info', 'debug'])
     .default('info'),
@@ -72,7 +446,30 @@ const configSchema = z.object({
     .default('5')
     .transform(Number)
     .pipe(z.number().int().positive()),
-});
+})
+  .refine((cfg) => cfg.TARGET_WALLET || cfg.TARGET_WALLETS, {
+    message: 'TARGET_WALLET or TARGET_WALLETS is required',
+    path: ['TARGET_WALLET'],
+  })
+  .refine((cfg) => cfg.WS_PING_INTERVAL < cfg.WS_STALE_TIMEOUT, {
+    message: 'WS_PING_INTERVAL must be shorter than WS_STALE_TIMEOUT',
+    path: ['WS_PING_INTERVAL'],
+  })
+  .transform((cfg) => {
+    // Normalize leaders so allocation weights always sum to 1
+    const leaders = cfg.TARGET_WALLETS ?? [
+      { address: cfg.TARGET_WALLET!, weight: 1, sizeMultiplier: 1, blockedAssets: [] },
+    ];
+    const totalWeight = leaders.reduce((sum, leader) => sum + leader.weight, 0);
+
+    return {
+      ...cfg,
+      LEADERS: leaders.map((leader) => ({
+        ...leader,
+        weight: leader.weight / totalWeight,
+      })),
+    };
+  });
 
 export type Config = z.infer<typeof configSchema>;
 
@@ -1,12 +1,34 @@
 import { config } from './config.js';
 import { logger, loggerUtils } from './logger.js';
-import { HyperliquidClientWrapper } from './hyperliquidClient.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { TradeExecutor } from './tradeExecutor.js';
+import { LeverageManager } from './leverageManager.js';
+import { Reconciler } from './reconciler.js';
+import { RiskSupervisor } from './riskSupervisor.js';
+import { ProtectionManager } from './protectionManager.js';
+import { OrderManager } from './orderManager.js';
+import { TradeThrottle } from './throttle.js';
+import { TradingSchedule } from './tradingSchedule.js';
+import { LiquidationGuard, LiquidationWatcher } from './liquidationGuard.js';
+import { TradeJournal } from './storage/tradeJournal.js';
+import { AssetFilter } from './assetFilter.js';
+import { SizingStrategies } from './sizing/sizingStrategies.js';
+import { FillAggregator, mergeFills } from './utils/fillAggregator.js';
+import { buildExposureBook } from './utils/exposure.js';
+import { deriveCloid } from './utils/cloid.js';
 import {
+  applyDirectionMode,
+  applyDirectionModeToSize,
   calculatePositionSize,
   capLeverage,
+  getDirectionMode,
+  getMarketType,
+  getOpenSide,
   getTradeAction,
+  isAssetBlocked,
+  isMarketTypeCopied,
   removeTrailingZeros,
-  validateTradeParams,
+  splitFlipFill,
 } from './utils/risk.js';
 import {
   TradingError,
@@ -18,205 +40,442 @@ import { sendErrorNotification } from './notifications/telegram.js';
 import type {
   CopyTradeParams,
   FillEvent,
+  FillOutcome,
+  LeaderConfig,
   Position,
   TradeResult,
+  UserState,
 } from './types.js';
 
+/**
+ * A leader fill sized into our trade, with the book it was sized against
+ */
+interface FillPlan {
+  action: 'open' | 'reduce' | 'close';
+  params: CopyTradeParams;
+  account: UserState;
+}
+
+/**
+ * Both accounts and the mids one copy decision is made on
+ */
+interface DecisionState {
+  ours: UserState;
+  target: UserState;
+  mids: Record<string, string>;
+}
+
 /**
  * Core copy trading logic
- * Monitors target wallet and mirrors trades
+ * Monitors leader wallets and mirrors their trades
  */
 export class CopyTrader {
-  private client: HyperliquidClientWrapper;
-  private targetWallet: string;
+  private client: ExchangeAdapter;
+  private executor: TradeExecutor;
+  private leverageManager: LeverageManager;
+  private reconciler: Reconciler;
+  private throttle: TradeThrottle;
+  private schedule: TradingSchedule;
+  private netSyncId?: ReturnType<typeof setInterval>;
+  private riskSupervisor: RiskSupervisor;
+  private protectionManager: ProtectionManager;
+  private orderManager: OrderManager;
+  private liquidationWatcher: LiquidationWatcher;
+  private journal: TradeJournal;
+  private aggregator: FillAggregator;
+  private sizing: SizingStrategies;
+  private assetFilter: AssetFilter;
+  // Copy sizes too small to trade, carried into the next fill by leader, coin and side
+  private sizeCarry: Map<string, number> = new Map();
+  private leaders: LeaderConfig[];
   private ourAddress: string;
-  private activeTrades: Set<string> = new Set(); // Track active trades by coin
-  private unsubscribeFn?: () => void;
+  // Track active trades by coin, with the leaders currently holding each one
+  private activeTrades: Map<string, Set<string>> = new Map();
+  private unsubscribeFns: Array<() => void> = [];
 
-  constructor(client: HyperliquidClientWrapper, targetWallet: string) {
+  constructor(client: ExchangeAdapter, leaders: LeaderConfig[]) {
     this.client = client;
-    this.targetWallet = targetWallet;
+    this.leverageManager = new LeverageManager(client, leaders);
+    this.orderManager = new OrderManager(client);
+    this.executor = new TradeExecutor(
+      client,
+      this.leverageManager,
+      new LiquidationGuard(),
+      this.orderManager
+    );
+    this.liquidationWatcher = new LiquidationWatcher(client, this.executor);
+    this.journal = new TradeJournal(config.STATE_FILE);
+    this.sizing = new SizingStrategies(client);
+    this.assetFilter = new AssetFilter(client);
+    this.riskSupervisor = new RiskSupervisor(client, this.executor, config.RISK_STATE_FILE);
+    this.protectionManager = new ProtectionManager(client);
+    this.aggregator = new FillAggregator(
+      config.FILL_COALESCE_MS,
+      (leader, fill, parts) => void this.handleFill(leader, fill, parts)
+    );
+    this.leaders = leaders;
     this.ourAddress = client.getAddress();
+    this.throttle = new TradeThrottle();
+    this.schedule = new TradingSchedule(config.BLACKOUT_CALENDAR_FILE);
+    // Also used outside reconcile mode to sync throttled and churning coins
+    this.reconciler = new Reconciler(
+      client,
+      leaders,
+      this.executor,
+      this.riskSupervisor,
+      this.protectionManager,
+      this.assetFilter,
+      this.schedule
+    );
   }
 
   /**
-   * Start monitoring target wallet and copying trades
+   * Start monitoring leader wallets and copying trades
    */
   async start(): Promise<void> {
     logger.info('Starting copy trader', {
       ourAddress: this.ourAddress,
-      targetWallet: this.targetWallet,
+      leaders: this.leaders.map((leader) => ({
+        address: leader.address,
+        weight: leader.weight,
+        sizeMultiplier: leader.sizeMultiplier,
+      })),
+      copyMode: config.COPY_MODE,
       dryRun: config.DRY_RUN,
     });
 
-    // Subscribe to target wallet fills
-    this.unsubscribeFn = await this.client.subscribeToUserFills(
-      this.targetWallet,
-      (fill: FillEvent) => this.handleFill(fill)
-    );
+    // Rebuild processed fills and active trades from the journal
+    await this.journal.load();
+    this.activeTrades = this.journal.getActiveTrades();
+    logger.info('Trade state restored from journal', {
+      stateFile: config.STATE_FILE,
+      processedFills: this.journal.getProcessedCount(),
+      activeTrades: [...this.activeTrades.keys()],
+    });
+
+    // Restore equity marks and any trip before copying resumes
+    await this.riskSupervisor.start(config.RISK_CHECK_INTERVAL);
+
+    // Weekend, hourly and event blackouts for new opens
+    await this.schedule.start();
+
+    // Follow our own orders before any are placed
+    await this.orderManager.start();
+
+    // Subscribe to each leader's fills
+    for (const leader of this.leaders) {
+      const unsubscribe = await this.client.subscribeToUserFills(
+        leader.address,
+        (fill: FillEvent) => this.onFill(leader, fill),
+        (fills: FillEvent[]) => void this.handleSnapshot(leader, fills)
+      );
+      this.unsubscribeFns.push(unsubscribe);
+    }
+
+    // Keep leverage and margin mode in line with the leaders
+    this.leverageManager.start(config.LEVERAGE_SYNC_INTERVAL);
+
+    // Keep stop-loss/take-profit orders on every position we hold
+    this.protectionManager.start(config.PROTECTION_SYNC_INTERVAL);
 
-    logger.info('Copy trader started, monitoring fills...');
+    // Cut positions that drift close to liquidation
+    this.liquidationWatcher.start(config.LIQUIDATION_CHECK_INTERVAL);
+
+    // In reconcile mode, also converge on a timer to recover missed fills
+    if (config.COPY_MODE === 'reconcile') {
+      this.reconciler.start(config.RECONCILE_INTERVAL);
+    } else {
+      // Throttled and churning coins follow the leaders' net position instead
+      this.netSyncId = setInterval(() => {
+        void this.syncThrottledCoins();
+      }, config.NET_SYNC_INTERVAL * 1000);
+    }
+
+    logger.info('Copy trader started, monitoring fills...', {
+      leaderCount: this.leaders.length,
+    });
   }
 
   /**
    * Stop monitoring
+   * Fills still waiting to be coalesced are journaled as skipped, not copied
    */
-  stop(): void {
-    if (this.unsubscribeFn) {
-      this.unsubscribeFn();
-      this.unsubscribeFn = undefined;
+  async stop(): Promise<void> {
+    for (const unsubscribe of this.unsubscribeFns) {
+      unsubscribe();
+    }
+    this.unsubscribeFns = [];
+    const pending = this.aggregator.discardAll();
+    this.leverageManager.stop();
+    this.riskSupervisor.stop();
+    this.schedule.stop();
+    this.protectionManager.stop();
+    this.liquidationWatcher.stop();
+    this.reconciler.stop();
+    this.orderManager.stop();
+    if (this.netSyncId) {
+      clearInterval(this.netSyncId);
+      this.netSyncId = undefined;
+    }
+
+    for (const { leader, fill, parts } of pending) {
+      logger.warn('Discarding pending fill on shutdown', {
+        leader: leader.address,
+        coin: fill.coin,
+        oid: fill.oid,
+        size: fill.sz,
+      });
+      try {
+        await Promise.all(
+          parts.map(async (part) => {
+            await this.journal.recordFill(leader.address, part);
+            await this.journal.recordOutcome(leader.address, part, {
+              status: 'skipped',
+              error: 'Pending when the bot stopped',
+            });
+          })
+        );
+      } catch (error) {
+        logger.error('Failed to journal discarded fill', {
+          leader: leader.address,
+          hash: fill.hash,
+          ...ErrorHandler.formatError(error),
+        });
+      }
     }
+
     logger.info('Copy trader stopped');
   }
 
   /**
-   * Handle incoming fill event from target wallet
+   * Route a leader fill to the active copy mode
    */
-  private async handleFill(fill: FillEvent): Promise<void> {
-    try {
-      logger.info('Received fill event', {
+  private onFill(leader: LeaderConfig, fill: FillEvent): void {
+    if (config.COPY_MODE === 'reconcile') {
+      logger.debug('Fill received in reconcile mode, scheduling reconciliation', {
+        leader: leader.address,
         coin: fill.coin,
-        side: fill.side,
-        size: fill.sz,
-        price: fill.px,
-        direction: fill.dir,
         hash: fill.hash,
       });
+      this.reconciler.requestReconcile(`fill ${fill.coin} from ${leader.address}`);
+      return;
+    }
 
-      // Determine trade action
-      const action = getTradeAction(fill);
-      logger.debug('Trade action determined', { action, fill });
+    if (this.journal.isProcessed(fill)) {
+      logger.debug('Fill already processed, skipping', {
+        leader: leader.address,
+        coin: fill.coin,
+        hash: fill.hash,
+      });
+      return;
+    }
 
-      // Get account equities for position sizing with retry
-      let ourEquityData, targetEquityData;
-      try {
-        [ourEquityData, targetEquityData] = await retryWithBackoff(
-          async () => {
-            return await Promise.all([
-              this.client.getAccountEquity(this.ourAddress),
-              this.client.getAccountEquity(this.targetWallet),
-            ]);
-          },
-          { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 },
-          (error, attempt) => {
-            logger.warn(`Failed to fetch account equity (attempt ${attempt}/3)`, { error });
-          }
-        );
-      } catch (error) {
-        const formattedError = ErrorHandler.formatError(error);
-        logger.error('Failed to fetch account equity after retries', formattedError);
-        await sendErrorNotification(
-          ErrorHandler.wrapError(error, 'Failed to fetch account equity'),
-          { fillHash: fill.hash, coin: fill.coin }
-        );
-        return;
-      }
+    if (config.FILL_COALESCE_MS > 0) {
+      this.aggregator.add(leader, fill);
+      return;
+    }
 
-      const ourEquity = parseFloat(ourEquityData.accountValue);
-      const targetEquity = parseFloat(targetEquityData.accountValue);
+    void this.handleFill(leader, fill);
+  }
 
-      if (isNaN(ourEquity) || isNaN(targetEquity)) {
-        throw new ValidationError('Invalid equity values', {
-          ourEquity: ourEquityData.accountValue,
-          targetEquity: targetEquityData.accountValue,
-        });
-      }
+  /**
+   * Handle the userFills snapshot sent on (re)subscribe
+   * Historical fills are never executed as new trades; only unprocessed fills no
+   * older than the last one we processed were missed while disconnected and get
+   * backfilled. Parts of one order often share a millisecond, so fills at that
+   * same time count too; the journal rules out the ones already copied.
+   */
+  private async handleSnapshot(leader: LeaderConfig, fills: FillEvent[]): Promise<void> {
+    if (config.COPY_MODE === 'reconcile') {
+      this.reconciler.requestReconcile(`snapshot from ${leader.address}`);
+      return;
+    }
 
-      logger.debug('Account equities', {
-        ourEquity,
-        targetEquity,
+    const lastFillTime = this.journal.getLastFillTime(leader.address);
+    if (lastFillTime === undefined) {
+      logger.info('Ignoring userFills snapshot, no fills processed for leader yet', {
+        leader: leader.address,
+        count: fills.length,
       });
+      return;
+    }
 
-      // Get current positions to determine leverage and reduce-only status
-      let targetPositions;
-      try {
-        [, targetPositions] = await retryWithBackoff(
-          async () => {
-            return await Promise.all([
-              this.client.getPositions(this.ourAddress),
-              this.client.getPositions(this.targetWallet),
-            ]);
-          },
-          { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 }
-        );
-      } catch (error) {
-        const formattedError = ErrorHandler.formatError(error);
-        logger.error('Failed to fetch positions after retries', formattedError);
-        await sendErrorNotification(
-          ErrorHandler.wrapError(error, 'Failed to fetch positions'),
-          { fillHash: fill.hash, coin: fill.coin }
-        );
-        return;
-      }
+    // Fills waiting in the aggregator came from the live stream and are copied when it flushes
+    const missed = fills
+      .filter(
+        (fill) =>
+          fill.time >= lastFillTime &&
+          !this.journal.isProcessed(fill) &&
+          !this.aggregator.isPending(leader, fill)
+      )
+      .sort((a, b) => a.time - b.time);
 
-      const targetPosition = targetPositions.find((p) => p.coin === fill.coin);
+    if (missed.length === 0) {
+      logger.debug('No missed fills in snapshot', { leader: leader.address });
+      return;
+    }
+
+    logger.warn('Fills missed while disconnected', {
+      leader: leader.address,
+      count: missed.length,
+      since: new Date(lastFillTime).toISOString(),
+      backfillMode: config.BACKFILL_MODE,
+    });
 
-      // Calculate trade parameters
-      let tradeParams: CopyTradeParams | null;
+    if (config.BACKFILL_MODE === 'execute') {
+      for (const fill of missed) {
+        logger.info('Backfilling missed fill', {
+          leader: leader.address,
+          coin: fill.coin,
+          hash: fill.hash,
+          ageMs: Date.now() - fill.time,
+        });
+        await this.handleFill(leader, fill);
+      }
+      return;
+    }
+
+    // Mark missed fills as handled so later snapshots don't surface them again
+    const reason =
+      config.BACKFILL_MODE === 'reconcile'
+        ? 'Missed while disconnected, left to reconciliation'
+        : 'Missed while disconnected, skipped';
+    for (const fill of missed) {
       try {
-        tradeParams = await this.calculateTradeParams(
-          fill,
-          action,
-          ourEquity,
-          targetEquity,
-          targetPosition
-        );
+        await this.journal.recordFill(leader.address, fill);
+        await this.journal.recordOutcome(leader.address, fill, {
+          status: 'skipped',
+          error: reason,
+        });
       } catch (error) {
-        const formattedError = ErrorHandler.formatError(error);
-        logger.error('Failed to calculate trade parameters', formattedError);
-        await sendErrorNotification(
-          ErrorHandler.wrapError(error, 'Failed to calculate trade parameters'),
-          { fillHash: fill.hash, coin: fill.coin }
-        );
-        return;
+        logger.error('Failed to journal skipped fill', {
+          leader: leader.address,
+          hash: fill.hash,
+          ...ErrorHandler.formatError(error),
+        });
       }
+    }
 
-      if (!tradeParams) {
-        logger.warn('Trade parameters calculation returned null, skipping', {
+    if (config.BACKFILL_MODE === 'reconcile') {
+      this.reconciler.requestReconcile(`backfill for ${leader.address}`);
+    }
+  }
+
+  /**
+   * Handle incoming fill event from a leader wallet
+   * `parts` are the original fills when `fill` was coalesced from several.
+   * Fills are journaled before execution so a replay is never copied twice
+   */
+  private async handleFill(
+    leader: LeaderConfig,
+    fill: FillEvent,
+    parts: FillEvent[] = [fill]
+  ): Promise<void> {
+    const pending = parts.filter((part) => !this.journal.isProcessed(part));
+    if (pending.length === 0) {
+      logger.debug('Fill already processed, skipping', {
+        leader: leader.address,
+        coin: fill.coin,
+        hash: fill.hash,
+      });
+      return;
+    }
+    if (pending.length < parts.length) {
+      // Some parts were already copied, only copy the remainder
+      return this.handleFill(leader, mergeFills(pending), pending);
+    }
+
+    try {
+      await Promise.all(parts.map((part) => this.journal.recordFill(leader.address, part)));
+    } catch (error) {
+      logger.error('Failed to journal fill, skipping to avoid duplicate copies', {
+        leader: leader.address,
+        hash: fill.hash,
+        ...ErrorHandler.formatError(error),
+      });
+      return;
+    }
+
+    const outcome = await this.copyFill(leader, fill);
+
+    try {
+      await Promise.all(
+        parts.map((part) => this.journal.recordOutcome(leader.address, part, outcome))
+      );
+    } catch (error) {
+      logger.error('Failed to journal fill outcome', {
+        leader: leader.address,
+        hash: fill.hash,
+        outcome,
+        ...ErrorHandler.formatError(error),
+      });
+    }
+  }
+
+  /**
+   * Copy a single leader fill
+   */
+  private async copyFill(leader: LeaderConfig, fill: FillEvent): Promise<FillOutcome> {
+    try {
+      logger.info('Received fill event', {
+        leader: leader.address,
+        coin: fill.coin,
+        side: fill.side,
+        size: fill.sz,
+        price: fill.px,
+        direction: fill.dir,
+        hash: fill.hash,
+      });
+
+      if (isAssetBlocked(fill.coin, leader)) {
+        logger.info('Asset blocked for leader, skipping fill', {
+          leader: leader.address,
           coin: fill.coin,
-          action,
         });
-        return;
+        return { status: 'skipped', error: 'Asset blocked for leader' };
       }
 
-      // Execute trade
-      const result = await this.executeTrade(tradeParams, fill.px, ourEquity);
-
-      if (result.success) {
-        loggerUtils.logTrade('info', 'Trade executed successfully', {
-          orderId: result.orderId,
-          params: tradeParams,
-          fillHash: fill.hash,
+      if (!isMarketTypeCopied(fill.coin)) {
+        logger.info('Market type not copied, skipping fill', {
+          leader: leader.address,
           coin: fill.coin,
-          action,
+          marketType: getMarketType(fill.coin),
         });
+        return { status: 'skipped', error: 'Market type not copied' };
+      }
 
-        // Track active trade
-        if (action === 'open') {
-          this.activeTrades.add(fill.coin);
-        } else if (action === 'close') {
-          this.activeTrades.delete(fill.coin);
-        }
+      // Determine trade action
+      const action = getTradeAction(fill);
+      logger.debug('Trade action determined', { action, fill });
 
-        // Send notification if configured
-        await this.sendNotification(fill, tradeParams, result);
-      } else {
-        loggerUtils.logTrade('error', 'Trade execution failed', {
-          error: result.error,
-          params: tradeParams,
-          fillHash: fill.hash,
-          coin: fill.coin,
-        });
-        await sendErrorNotification(
-          new TradingError(result.error || 'Trade execution failed', false, {
-            tradeParams,
-            fillHash: fill.hash,
-          })
-        );
+      const throttled = this.throttle.admit(fill.coin, action, fill.time);
+      if (throttled) {
+        // The net-position sync will follow the leader, so keep tracking its holdings
+        if (action === 'open') this.trackOpen(fill.coin, leader.address);
+        if (action === 'close') this.trackClose(fill.coin, leader.address);
+        return { status: 'skipped', action, error: throttled };
       }
+
+      if (action === 'flip') {
+        return await this.copyFlip(leader, fill);
+      }
+
+      const plan = await this.planFill(leader, fill, action);
+      if ('status' in plan) {
+        return plan;
+      }
+
+      const result = await this.executor.execute(
+        plan.params,
+        fill.px,
+        plan.account,
+        buildExposureBook(plan.account.positions)
+      );
+      return await this.finishFill(leader, fill, action, plan.params, result);
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
       logger.error('Error handling fill', {
+        leader: leader.address,
         fill,
         ...formattedError,
       });
@@ -228,58 +487,408 @@ export class CopyTrader {
           { fillHash: fill.hash, coin: fill.coin }
         );
       }
+      return { status: 'failed', error: formattedError.message };
+    }
+  }
+
+  /**
+   * Size a leader fill into the trade that copies it
+   * Returns the outcome instead when the fill is not copied. `afterClose` is a
+   * close planned ahead of this fill in the same batch; the fill is sized as if
+   * it had executed. `state` is fetched here unless the caller already has it
+   */
+  private async planFill(
+    leader: LeaderConfig,
+    fill: FillEvent,
+    action: 'open' | 'reduce' | 'close',
+    afterClose?: CopyTradeParams,
+    state?: DecisionState
+  ): Promise<FillPlan | FillOutcome> {
+    // Only new positions are filtered; reduces and closes always follow the leader
+    if (action === 'open') {
+      const reason = await this.assetFilter.getIneligibleReason(fill.coin);
+      if (reason) {
+        logger.info('Asset not eligible for new positions, skipping fill', {
+          leader: leader.address,
+          coin: fill.coin,
+          reason,
+        });
+        return { status: 'skipped', action, error: reason };
+      }
+    }
+
+    if (!state) {
+      const fetched = await this.fetchDecisionState(leader, fill);
+      if ('error' in fetched) {
+        return { status: 'failed', action, error: fetched.error };
+      }
+      state = fetched;
+    }
+    const { ours: ourState, target: targetState, mids } = state;
+
+    const ourEquity = parseFloat(ourState.equity.accountValue);
+    const targetEquity = parseFloat(targetState.equity.accountValue);
+
+    if (isNaN(ourEquity) || isNaN(targetEquity)) {
+      throw new ValidationError('Invalid equity values', {
+        ourEquity: ourState.equity.accountValue,
+        targetEquity: targetState.equity.accountValue,
+      });
+    }
+
+    logger.debug('Account equities', {
+      ourEquity,
+      targetEquity,
+      leader: leader.address,
+      weight: leader.weight,
+    });
+
+    const ourPositions = ourState.positions;
+    const targetPositions = targetState.positions;
+    const targetPosition = targetPositions.find((p) => p.coin === fill.coin);
+    const ourPosition = afterClose
+      ? remainingPosition(ourPositions, afterClose)
+      : ourPositions.find((p) => p.coin === fill.coin);
+    const markPx = parseFloat(mids[fill.coin] ?? fill.px);
+
+    // Calculate trade parameters
+    let tradeParams: CopyTradeParams | null;
+    try {
+      tradeParams = await this.calculateTradeParams(
+        leader,
+        fill,
+        action,
+        markPx,
+        ourEquity,
+        targetEquity,
+        targetPosition,
+        ourPosition
+      );
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to calculate trade parameters', formattedError);
+      await sendErrorNotification(
+        ErrorHandler.wrapError(error, 'Failed to calculate trade parameters'),
+        { fillHash: fill.hash, coin: fill.coin }
+      );
+      return { status: 'failed', action, error: formattedError.message };
+    }
+
+    if (!tradeParams) {
+      logger.warn('Trade parameters calculation returned null, skipping', {
+        coin: fill.coin,
+        action,
+      });
+      return { status: 'skipped', action };
+    }
+
+    // Derived from the fill so a retried copy is recognised on the exchange
+    const cloid = deriveCloid(`${TradeJournal.fillKey(fill)}:${fill.dir}`);
+    return { action, params: { ...tradeParams, cloid }, account: ourState };
+  }
+
+  /**
+   * One snapshot of both accounts and the mids for a whole decision, from
+   * sizing through the executor's exposure and liquidation checks
+   * Returns the error instead once retries are exhausted
+   */
+  private async fetchDecisionState(
+    leader: LeaderConfig,
+    fill: FillEvent
+  ): Promise<DecisionState | { error: string }> {
+    try {
+      const [ours, target, mids] = await retryWithBackoff(
+        async () => {
+          return await Promise.all([
+            this.client.getUserState(this.ourAddress),
+            this.client.getUserState(leader.address),
+            this.client.getAllMids(),
+          ]);
+        },
+        { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 },
+        (error, attempt) => {
+          logger.warn(`Failed to fetch account state (attempt ${attempt}/3)`, { error });
+        }
+      );
+      return { ours, target, mids };
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to fetch account state after retries', formattedError);
+      await sendErrorNotification(
+        ErrorHandler.wrapError(error, 'Failed to fetch account state'),
+        { fillHash: fill.hash, coin: fill.coin, leader: leader.address }
+      );
+      return { error: formattedError.message };
+    }
+  }
+
+  /**
+   * Log, track and notify the result of a copied fill
+   */
+  private async finishFill(
+    leader: LeaderConfig,
+    fill: FillEvent,
+    action: 'open' | 'reduce' | 'close',
+    tradeParams: CopyTradeParams,
+    result: TradeResult
+  ): Promise<FillOutcome> {
+    if (result.success) {
+      loggerUtils.logTrade('info', 'Trade executed successfully', {
+        orderId: result.orderId,
+        params: tradeParams,
+        fillHash: fill.hash,
+        coin: fill.coin,
+        leader: leader.address,
+        action,
+      });
+
+      // Track active trade
+      if (action === 'open') {
+        this.trackOpen(fill.coin, leader.address);
+      } else if (action === 'close') {
+        this.trackClose(fill.coin, leader.address);
+      }
+
+      // Resize or cancel stop-loss/take-profit for the new position
+      void this.protectionManager.sync(fill.coin);
+
+      // Send notification if configured
+      await this.sendNotification(fill, tradeParams, result);
+      return { status: 'executed', action, orderId: result.orderId, params: tradeParams };
+    } else {
+      loggerUtils.logTrade('error', 'Trade execution failed', {
+        error: result.error,
+        params: tradeParams,
+        fillHash: fill.hash,
+        coin: fill.coin,
+        leader: leader.address,
+      });
+      await sendErrorNotification(
+        new TradingError(result.error || 'Trade execution failed', false, {
+          tradeParams,
+          fillHash: fill.hash,
+        })
+      );
+      return { status: 'failed', action, params: tradeParams, error: result.error };
     }
   }
 
+  /**
+   * Copy a flip as a close of the old side followed by an open of the new one
+   * Both legs are sized up front and sent as one batch, so the exchange sees
+   * them together rather than a round trip apart. The throttle has already
+   * admitted the fill as one flip, so the legs are not admitted again
+   */
+  private async copyFlip(leader: LeaderConfig, fill: FillEvent): Promise<FillOutcome> {
+    const legs = splitFlipFill(fill);
+    logger.info('Splitting flip fill into legs', {
+      leader: leader.address,
+      coin: fill.coin,
+      direction: fill.dir,
+      legs: legs.map((leg) => ({ dir: leg.dir, sz: leg.sz })),
+    });
+
+    // Both legs are sized against, and executed on, one snapshot of the book
+    const state = await this.fetchDecisionState(leader, fill);
+    if ('error' in state) {
+      return { status: 'failed', action: 'flip', error: state.error };
+    }
+
+    const outcomes: FillOutcome[] = new Array(legs.length);
+    const planned: Array<{ index: number; leg: FillEvent; plan: FillPlan }> = [];
+    let closing: CopyTradeParams | undefined;
+
+    for (const [index, leg] of legs.entries()) {
+      const action = getTradeAction(leg) as 'open' | 'close';
+      const plan = await this.planFill(leader, leg, action, closing, state);
+      if ('status' in plan) {
+        outcomes[index] = plan;
+        continue;
+      }
+      if (action === 'close') {
+        closing = plan.params;
+      }
+      planned.push({ index, leg, plan });
+    }
+
+    if (planned.length > 0) {
+      const results = await this.executor.executeBatch(
+        planned.map(({ leg, plan }) => ({ params: plan.params, price: leg.px })),
+        state.ours,
+        buildExposureBook(state.ours.positions)
+      );
+
+      for (const [i, { index, leg, plan }] of planned.entries()) {
+        outcomes[index] = await this.finishFill(leader, leg, plan.action, plan.params, results[i]);
+      }
+    }
+
+    const failed = outcomes.find((outcome) => outcome.status === 'failed');
+    if (failed) {
+      return { status: 'failed', action: 'flip', error: failed.error };
+    }
+    if (outcomes.every((outcome) => outcome.status === 'skipped')) {
+      return { status: 'skipped', action: 'flip' };
+    }
+    return {
+      status: 'executed',
+      action: 'flip',
+      orderId: outcomes.map((outcome) => outcome.orderId).filter(Boolean).join(','),
+    };
+  }
+
   /**
    * Calculate trade parameters for copying
    */
   private async calculateTradeParams(
+    leader: LeaderConfig,
     fill: FillEvent,
     action: 'open' | 'reduce' | 'close',
+    markPx: number,
     ourEquity: number,
     targetEquity: number,
-    targetPosition: Position | undefined
+    targetPosition: Position | undefined,
+    ourPosition: Position | undefined
   ): Promise<CopyTradeParams | null> {
     const coin = fill.coin;
     const fillSize = parseFloat(fill.sz);
+    const ourSize = ourPosition ? parseFloat(ourPosition.szi) : 0;
 
     // Determine side: B = Buy (Long), A = Sell (Short/Close)
     let side: 'A' | 'B';
     let reduceOnly = false;
 
     if (action === 'open') {
-      // Opening: Long = Buy (B), Short = Sell (A)
-      side = fill.dir === 'Open Long' ? 'B' : 'A';
+      // Opening: Long = Buy (B), Short = Sell (A), then the coin's direction mode
+      const copySide = applyDirectionMode(coin, getOpenSide(fill));
+      if (!copySide) {
+        logger.info('Direction filtered out by direction mode, skipping open', {
+          coin,
+          dir: fill.dir,
+          mode: getDirectionMode(coin),
+          leader: leader.address,
+        });
+        return null;
+      }
+      side = copySide;
     } else {
-      // Reducing/Closing: opposite of position direction
-      if (targetPosition) {
-        const isLong = parseFloat(targetPosition.szi) > 0;
-        side = isLong ? 'A' : 'B'; // Close long = sell, close short = buy
-      } else {
-        // Fallback: use fill side
-        side = fill.side;
+      // Reducing/Closing: only a position of ours on the side the leader's
+      // position was copied to, so filtered-out opens never close anything
+      const expectedSign = Math.sign(
+        applyDirectionModeToSize(coin, parseFloat(fill.startPosition))
+      );
+      if (ourSize === 0 || Math.sign(ourSize) !== expectedSign) {
+        logger.info('No matching position of ours to reduce or close, skipping', {
+          coin,
+          action,
+          ourSize,
+          mode: getDirectionMode(coin),
+          leader: leader.address,
+        });
+        return null;
       }
+      side = ourSize > 0 ? 'A' : 'B'; // Close long = sell, close short = buy
       reduceOnly = true;
     }
 
-    // Calculate position size
+    // Calculate position size from our capital allocated to this leader
+    // Opens use the coin's sizing strategy; reduces start from the equity ratio
     const targetSize = fillSize;
-    const calculatedSize = calculatePositionSize(
-      targetSize,
-      ourEquity,
-      targetEquity
-    );
+    let calculatedSize: number;
+    if (action === 'open') {
+      const strategy = this.sizing.forCoin(coin);
+      calculatedSize = await strategy.calculateSize({
+        leader,
+        coin,
+        fillSize,
+        price: markPx,
+        ourEquity,
+        targetEquity,
+        targetPosition,
+        ourPosition,
+      });
+      logger.debug('Open sized', { coin, strategy: strategy.name, size: calculatedSize });
+
+      if (calculatedSize === 0) {
+        logger.info('Sizing strategy returned zero, skipping open', {
+          coin,
+          strategy: strategy.name,
+          leader: leader.address,
+        });
+        return null;
+      }
+    } else {
+      calculatedSize = calculatePositionSize(
+        targetSize,
+        markPx,
+        ourEquity,
+        targetEquity,
+        leader,
+        coin
+      );
+    }
 
-    // Get leverage from target position or use default
+    if (action !== 'open') {
+      // Other leaders holding this coin share our position, so only their
+      // equity-scaled portion can be attributed to this leader
+      const sharedWithOtherLeaders = [...(this.activeTrades.get(coin) ?? [])].some(
+        (holder) => holder !== leader.address
+      );
+      const startSize = Math.abs(parseFloat(fill.startPosition));
+
+      if (sharedWithOtherLeaders) {
+        logger.debug('Position shared with other leaders, using equity-scaled size', {
+          coin,
+          leader: leader.address,
+        });
+      } else if (action === 'close') {
+        // Close exactly what we hold, so equity changes since entry leave no dust
+        calculatedSize = Math.abs(ourSize);
+      } else if (startSize > 0) {
+        // Reduce by the same fraction of our position that the leader closed of theirs
+        calculatedSize = Math.abs(ourSize) * Math.min(fillSize / startSize, 1);
+      }
+
+      calculatedSize = Math.min(calculatedSize, Math.abs(ourSize));
+    }
+
+    // Get leverage and margin mode from target position or use default
     let leverage = 1;
+    let isCross = false;
     if (targetPosition?.leverage) {
-      leverage = parseInt(targetPosition.leverage.value);
-      leverage = capLeverage(leverage);
+      leverage = capLeverage(Number(targetPosition.leverage.value));
+      isCross = targetPosition.leverage.type === 'cross';
+    }
+
+    // New opens are paused while account risk limits are tripped
+    if (action === 'open' && this.riskSupervisor.isTripped()) {
+      logger.warn('Risk limits tripped, skipping open', {
+        coin,
+        leader: leader.address,
+      });
+      return null;
+    }
+
+    // New opens are paused during blackout windows
+    if (action === 'open') {
+      const blackout = this.schedule.getBlackoutReason();
+      if (blackout) {
+        this.schedule.recordSkippedOpen();
+        logger.info('Inside blackout window, skipping open', {
+          coin,
+          leader: leader.address,
+          blackout,
+        });
+        return null;
+      }
     }
 
-      // Check max concurrent trades
-    if (action === 'open' && this.activeTrades.size >= config.MAX_CONCURRENT_TRADES) {
+    // Check max concurrent trades
+    if (
+      action === 'open' &&
+      !this.activeTrades.has(coin) &&
+      this.activeTrades.size >= config.MAX_CONCURRENT_TRADES
+    ) {
       logger.warn('Max concurrent trades reached, skipping', {
         activeTrades: this.activeTrades.size,
         max: config.MAX_CONCURRENT_TRADES,
@@ -295,12 +904,39 @@ export class CopyTrader {
         targetSize,
         ourEquity,
         targetEquity,
+        leader: leader.address,
         coin: fill.coin,
       });
       return null;
     }
 
-    const sizeStr = removeTrailingZeros(calculatedSize.toFixed(8));
+    // Carry sizes below the minimum notional forward instead of dropping them
+    let size = calculatedSize;
+    if (action === 'close') {
+      this.sizeCarry.delete(`${leader.address}:${coin}:A`);
+      this.sizeCarry.delete(`${leader.address}:${coin}:B`);
+    } else {
+      const carryKey = `${leader.address}:${coin}:${side}`;
+      size += this.sizeCarry.get(carryKey) ?? 0;
+      if (reduceOnly) {
+        size = Math.min(size, Math.abs(ourSize));
+      }
+
+      if (size * parseFloat(fill.px) < config.MIN_NOTIONAL) {
+        this.sizeCarry.set(carryKey, size);
+        logger.info('Copy size below minimum notional, carrying forward', {
+          coin,
+          side,
+          carriedSize: size,
+          minNotional: config.MIN_NOTIONAL,
+          leader: leader.address,
+        });
+        return null;
+      }
+      this.sizeCarry.delete(carryKey);
+    }
+
+    const sizeStr = removeTrailingZeros(size.toFixed(8));
 
     return {
       coin,
@@ -309,77 +945,50 @@ export class CopyTrader {
       orderType: 'Market', // Use market orders for immediate execution
       reduceOnly,
       leverage,
+      isCross,
     };
   }
 
   /**
-   * Execute trade with retry logic
+   * Bring throttled and churning coins in line with the leaders' net positions
    */
-  private async executeTrade(
-    params: CopyTradeParams,
-    price: string,
-    ourEquity: number
-  ): Promise<TradeResult> {
-    // Validate trade parameters
-    const validation = validateTradeParams(params, price, ourEquity);
-    if (!validation.valid) {
-      const error = new ValidationError(validation.reason || 'Invalid trade parameters', {
-        params,
-        price,
-        ourEquity,
-      });
-      logger.warn('Trade validation failed', ErrorHandler.formatError(error));
-      return {
-        success: false,
-        error: error.message,
-        params,
-      };
-    }
+  private async syncThrottledCoins(): Promise<void> {
+    const coins = this.throttle.takeSyncCoins();
+    if (coins.length === 0) return;
 
-    // Execute with retry logic
     try {
-      const orderId = await retryWithBackoff(
-        async () => {
-          return await this.client.placeOrder({
-            coin: params.coin,
-            side: params.side,
-            sz: params.size,
-            orderType: params.orderType,
-            reduceOnly: params.reduceOnly,
-            leverage: params.leverage,
-          });
-        },
-        {
-          maxRetries: 3,
-          initialDelay: 1000,
-          maxDelay: 10000,
-          backoffMultiplier: 2,
-        },
-        (error, attempt) => {
-          logger.warn(`Trade execution attempt ${attempt}/3 failed`, {
-            error: ErrorHandler.formatError(error),
-            params,
-          });
-        }
-      );
-
-      return {
-        success: true,
-        orderId,
-        params,
-      };
+      const results = await this.reconciler.reconcile('net-position sync', coins);
+      logger.info('Net-position sync complete', {
+        coins,
+        orders: results.length,
+        failed: results.filter((result) => !result.success).length,
+      });
     } catch (error) {
-      const formattedError = ErrorHandler.formatError(error);
-      logger.error('Trade execution failed after retries', {
-        ...formattedError,
-        params,
+      logger.error('Net-position sync failed', {
+        coins,
+        ...ErrorHandler.formatError(error),
       });
+    }
+  }
+
+  /**
+   * Record that a leader holds an open copied position in a coin
+   */
+  private trackOpen(coin: string, leaderAddress: string): void {
+    const holders = this.activeTrades.get(coin) ?? new Set<string>();
+    holders.add(leaderAddress);
+    this.activeTrades.set(coin, holders);
+  }
 
-      return {
-        success: false,
-        error: formattedError.message,
-        params,
-      };
+  /**
+   * Record that a leader fully closed its position in a coin
+   */
+  private trackClose(coin: string, leaderAddress: string): void {
+    const holders = this.activeTrades.get(coin);
+    if (!holders) return;
+    holders.delete(leaderAddress);
+    if (holders.size === 0) {
+      this.activeTrades.delete(coin);
     }
   }
 
@@ -404,4 +1013,35 @@ export class CopyTrader {
   getActiveTradesCount(): number {
     return this.activeTrades.size;
   }
+
+  /**
+   * Opens skipped for blackout windows since startup
+   */
+  getBlackoutSkippedOpens(): number {
+    return this.schedule.getSkippedOpens();
+  }
+
+  /**
+   * Clear a risk supervisor trip and allow new opens again
+   */
+  resumeTrading(): Promise<void> {
+    return this.riskSupervisor.resume();
+  }
+}
+
+/**
+ * Our position in the closed coin once a planned close has executed
+ */
+function remainingPosition(positions: Position[], close: CopyTradeParams): Position | undefined {
+  const position = positions.find((p) => p.coin === close.coin);
+  if (!position) {
+    return undefined;
+  }
+
+  const remaining =
+    parseFloat(position.szi) + (close.side === 'B' ? 1 : -1) * parseFloat(close.size);
+  if (Math.abs(remaining) < 1e-12) {
+    return undefined;
+  }
+  return { ...position, szi: removeTrailingZeros(remaining.toFixed(8)) };
 }
@@ -0,0 +1,129 @@
+import type {
+  AccountEquity,
+  AssetContext,
+  AssetMeta,
+  BatchOrderResult,
+  Candle,
+  CandleInterval,
+  FillEvent,
+  ModifyRequest,
+  OrderRequest,
+  OrderStatusInfo,
+  OrderUpdate,
+  PlacedOrder,
+  Position,
+  TopOfBook,
+  TriggerOrder,
+  TriggerOrderRequest,
+  UserState,
+} from '../types.js';
+
+/**
+ * Exchange access used by the copy trader
+ * Implemented by HyperliquidClientWrapper for the live exchange and by
+ * MockExchange for offline simulation
+ */
+export interface ExchangeAdapter {
+  /**
+   * Our wallet address
+   */
+  getAddress(): string;
+
+  /**
+   * Size decimals, leverage limits and asset index for a coin
+   */
+  getAssetMeta(coin: string): Promise<AssetMeta>;
+
+  /**
+   * 24h volume, open interest and mark price for every perp
+   */
+  getAssetContexts(): Promise<Map<string, AssetContext>>;
+
+  getAccountEquity(address: string): Promise<AccountEquity>;
+
+  getPositions(address: string): Promise<Position[]>;
+
+  /**
+   * Equity and positions together, so one decision sees a consistent account
+   * for the request weight of one lookup
+   */
+  getUserState(address: string): Promise<UserState>;
+
+  /**
+   * Mid prices by coin
+   */
+  getAllMids(): Promise<Record<string, string>>;
+
+  /**
+   * Best bid and ask for a coin
+   */
+  getTopOfBook(coin: string): Promise<TopOfBook>;
+
+  /**
+   * Recent candles for a coin, oldest first
+   */
+  getCandles(coin: string, interval: CandleInterval, startTime: number): Promise<Candle[]>;
+
+  /**
+   * Place an order, returning its ID and whether it filled or is resting
+   */
+  placeOrder(params: OrderRequest): Promise<PlacedOrder>;
+
+  /**
+   * Place several orders as one signed batch, returning one result per order
+   * The exchange processes them in order
+   */
+  placeOrders(orders: OrderRequest[]): Promise<BatchOrderResult[]>;
+
+  /**
+   * Place a reduce-only take-profit or stop-loss trigger, returning its order ID
+   */
+  placeTriggerOrder(params: TriggerOrderRequest): Promise<string>;
+
+  /**
+   * Resting reduce-only take-profit and stop-loss triggers of a wallet
+   */
+  getTriggerOrders(address: string): Promise<TriggerOrder[]>;
+
+  cancelOrder(coin: string, orderId: string): Promise<void>;
+
+  cancelOrderByCloid(coin: string, cloid: string): Promise<void>;
+
+  /**
+   * Replace a resting order's price and size
+   */
+  modifyOrder(request: ModifyRequest): Promise<void>;
+
+  /**
+   * Replace several resting orders as one signed batch, returning one result per order
+   */
+  modifyOrders(requests: ModifyRequest[]): Promise<BatchOrderResult[]>;
+
+  /**
+   * Set leverage and margin mode for a coin
+   */
+  updateLeverage(coin: string, leverage: number, isCross: boolean): Promise<void>;
+
+  /**
+   * Status of an order by order ID or client order ID
+   * Throws a non-retryable TradingError for orders the exchange doesn't know
+   */
+  getOrderStatus(orderId: string): Promise<OrderStatusInfo>;
+
+  /**
+   * Stream a wallet's fills
+   * The batch of past fills sent on subscribe goes to onSnapshot, never onFill.
+   * Returns an unsubscribe function
+   */
+  subscribeToUserFills(
+    address: string,
+    onFill: (fill: FillEvent) => void,
+    onSnapshot?: (fills: FillEvent[]) => void
+  ): Promise<() => void>;
+
+  /**
+   * Stream status changes of our own orders
+   * Returns an unsubscribe function
+   */
+  subscribeToOrderUpdates(onUpdate: (update: OrderUpdate) => void): Promise<() => void>;
+}
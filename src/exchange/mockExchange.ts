@@ -0,0 +1,827 @@
+import { randomBytes } from 'crypto';
+import { logger } from '../logger.js';
+import { ErrorHandler, TradingError, ValidationError } from '../utils/errors.js';
+import {
+  estimateLiquidationPrice,
+  maintenanceMarginRate,
+} from '../utils/liquidation.js';
+import { removeTrailingZeros, roundPrice, roundSize } from '../utils/risk.js';
+import { INTERVAL_MS } from '../utils/volatility.js';
+import type { ExchangeAdapter } from './exchangeAdapter.js';
+import type {
+  AccountEquity,
+  AssetContext,
+  AssetMeta,
+  BatchOrderResult,
+  Candle,
+  CandleInterval,
+  FillDirection,
+  FillEvent,
+  ModifyRequest,
+  OrderRequest,
+  OrderStatusInfo,
+  OrderUpdate,
+  PlacedOrder,
+  Position,
+  Side,
+  TopOfBook,
+  TimeInForce,
+  TpSl,
+  TriggerOrder,
+  TriggerOrderRequest,
+  UserState,
+} from '../types.js';
+
+/**
+ * Asset listed on the mock exchange
+ */
+export interface MockAsset {
+  name: string;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated?: boolean;
+  dayNtlVlm?: number; // Defaults to $1B
+  openInterestUsd?: number; // Defaults to $100M
+}
+
+export interface MockExchangeOptions {
+  address: string; // Our wallet
+  assets: MockAsset[];
+  prices: Record<string, number>; // Starting mid price by coin
+  balances?: Record<string, number>; // Starting USDC by address
+  takerFeeBps?: number;
+  makerFeeBps?: number;
+  spreadBps?: number; // Bid-ask spread around the mid, defaults to 2
+}
+
+interface MockPosition {
+  szi: number;
+  entryPx: number;
+}
+
+interface MockAccount {
+  balance: number; // USDC, including realized PnL and fees
+  positions: Map<string, MockPosition>;
+  leverage: Map<string, Position['leverage']>;
+  fills: FillEvent[];
+}
+
+interface MockOrder {
+  oid: number;
+  owner: string;
+  coin: string;
+  side: Side;
+  origSz: number;
+  sz: number; // Remaining
+  limitPx: number;
+  reduceOnly: boolean;
+  tif: TimeInForce;
+  trigger?: { triggerPx: number; tpsl: TpSl };
+  cloid?: string;
+  status: 'open' | 'filled' | 'canceled' | 'rejected';
+}
+
+/**
+ * In-memory exchange
+ * Matches orders against a scripted price feed at the mid price, tracks balances,
+ * positions and cross margin per address, and emits Hyperliquid-shaped fills.
+ * Leader activity is scripted with trade(); prices move with setPrice() or a feed.
+ */
+export class MockExchange implements ExchangeAdapter {
+  private address: string;
+  private assets: Map<string, MockAsset> = new Map();
+  private mids: Map<string, number> = new Map();
+  private history: Map<string, Array<{ time: number; px: number }>> = new Map();
+  private accounts: Map<string, MockAccount> = new Map();
+  private orders: Map<number, MockOrder> = new Map();
+  private listeners: Map<string, Set<(fill: FillEvent) => void>> = new Map();
+  private orderListeners: Set<(update: OrderUpdate) => void> = new Set();
+  private feed: Array<Record<string, number>> = [];
+  private takerFeeBps: number;
+  private makerFeeBps: number;
+  private spreadBps: number;
+  private nextOid = 1;
+  private nextTid = 1;
+
+  constructor(options: MockExchangeOptions) {
+    this.address = options.address;
+    this.takerFeeBps = options.takerFeeBps ?? 4.5;
+    this.makerFeeBps = options.makerFeeBps ?? 1.5;
+    this.spreadBps = options.spreadBps ?? 2;
+
+    for (const asset of options.assets) {
+      this.assets.set(asset.name, asset);
+    }
+    for (const [coin, px] of Object.entries(options.prices)) {
+      this.recordPrice(coin, px);
+    }
+    for (const [address, balance] of Object.entries(options.balances ?? {})) {
+      this.account(address).balance = balance;
+    }
+  }
+
+  // Simulation controls
+
+  /**
+   * Queue price ticks, applied one per step()
+   */
+  loadFeed(feed: Array<Record<string, number>>): void {
+    this.feed.push(...feed);
+  }
+
+  /**
+   * Apply the next tick of the feed
+   * Returns false once the feed is exhausted
+   */
+  step(): boolean {
+    const tick = this.feed.shift();
+    if (!tick) return false;
+
+    for (const [coin, px] of Object.entries(tick)) {
+      this.setPrice(coin, px);
+    }
+    return true;
+  }
+
+  /**
+   * Move a coin's mid price, filling resting orders and triggers it crosses and
+   * liquidating accounts below maintenance margin
+   */
+  setPrice(coin: string, px: number): void {
+    this.recordPrice(coin, px);
+
+    for (const order of [...this.orders.values()]) {
+      if (order.status !== 'open' || order.coin !== coin) continue;
+
+      try {
+        if (order.trigger) {
+          if (this.isTriggered(order, px)) {
+            this.executeOrder(order, px, this.takerFeeBps, true);
+          }
+        } else if (this.crosses(order.side, order.limitPx, px)) {
+          // Resting limits fill at their own price
+          this.executeOrder(order, order.limitPx, this.makerFeeBps, false);
+        }
+      } catch (error) {
+        logger.debug('Mock exchange rejected resting order', {
+          oid: order.oid,
+          error: ErrorHandler.getErrorMessage(error),
+        });
+      }
+    }
+
+    this.liquidate();
+  }
+
+  /**
+   * Fill a market order for any wallet, e.g. a scripted leader
+   */
+  trade(address: string, coin: string, side: Side, sz: number): FillEvent {
+    const px = this.mid(coin);
+    const order = this.createOrder(address, {
+      coin,
+      side,
+      sz: String(sz),
+      limitPx: roundPrice(px, this.asset(coin).szDecimals),
+      orderType: 'Market',
+      tif: 'Ioc',
+      reduceOnly: false,
+    });
+    return this.executeOrder(order, px, this.takerFeeBps, true);
+  }
+
+  /**
+   * Fill one market order for any wallet in several fills, like an order
+   * sweeping more than one level of the book
+   */
+  tradeInParts(address: string, coin: string, side: Side, sizes: number[]): FillEvent[] {
+    const px = this.mid(coin);
+    const { szDecimals } = this.asset(coin);
+    const order = this.createOrder(address, {
+      coin,
+      side,
+      sz: roundSize(sizes.reduce((sum, sz) => sum + sz, 0), szDecimals),
+      limitPx: roundPrice(px, szDecimals),
+      orderType: 'Market',
+      tif: 'Ioc',
+      reduceOnly: false,
+    });
+
+    return sizes.map((sz) => {
+      order.sz = sz;
+      order.status = 'open';
+      return this.executeOrder(order, px, this.takerFeeBps, true);
+    });
+  }
+
+  /**
+   * Deliver a past fill to its wallet's subscribers again, as the live feed can
+   * around a reconnect
+   */
+  replayFill(address: string, fill: FillEvent): void {
+    for (const listener of this.listeners.get(address.toLowerCase()) ?? []) {
+      queueMicrotask(() => listener(fill));
+    }
+  }
+
+  /**
+   * Current state of every order, for inspection
+   */
+  getOrders(): MockOrder[] {
+    return [...this.orders.values()];
+  }
+
+  // ExchangeAdapter
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  async getAssetMeta(coin: string): Promise<AssetMeta> {
+    const asset = this.assets.get(coin);
+    if (!asset) {
+      throw new ValidationError(`Unknown asset ${coin}`, { coin });
+    }
+    return {
+      name: asset.name,
+      index: [...this.assets.keys()].indexOf(coin),
+      szDecimals: asset.szDecimals,
+      maxLeverage: asset.maxLeverage,
+      onlyIsolated: asset.onlyIsolated ?? false,
+    };
+  }
+
+  async getAssetContexts(): Promise<Map<string, AssetContext>> {
+    const contexts = new Map<string, AssetContext>();
+    for (const asset of this.assets.values()) {
+      contexts.set(asset.name, {
+        coin: asset.name,
+        markPx: this.mid(asset.name),
+        dayNtlVlm: asset.dayNtlVlm ?? 1e9,
+        openInterestUsd: asset.openInterestUsd ?? 1e8,
+      });
+    }
+    return contexts;
+  }
+
+  async getAccountEquity(address: string): Promise<AccountEquity> {
+    const account = this.account(address);
+    const { accountValue, notional, marginUsed, maintenance } = this.marginState(account);
+    return {
+      accountValue: format(accountValue),
+      totalMarginUsed: format(marginUsed),
+      totalNtlPos: format(notional),
+      totalRawUsd: format(account.balance),
+      crossMaintenanceMarginUsed: format(maintenance),
+      crossMarginSummary: {},
+    };
+  }
+
+  async getPositions(address: string): Promise<Position[]> {
+    const account = this.account(address);
+    const { accountValue, maintenance } = this.marginState(account);
+
+    return [...account.positions].map(([coin, position]) => {
+      const mid = this.mid(coin);
+      const leverage = this.leverageFor(account, coin);
+      const notional = Math.abs(position.szi) * mid;
+      const unrealizedPnl = position.szi * (mid - position.entryPx);
+      const liquidationPx = estimateLiquidationPrice(
+        position.szi,
+        mid,
+        accountValue - maintenance,
+        maintenanceMarginRate(this.asset(coin).maxLeverage)
+      );
+
+      return {
+        coin,
+        szi: format(position.szi),
+        entryPx: format(position.entryPx),
+        positionValue: format(notional),
+        leverage,
+        liquidationPx: liquidationPx === undefined ? '' : format(liquidationPx),
+        marginUsed: format(notional / leverage.value),
+        returnOnEquity: format(unrealizedPnl / (notional / leverage.value)),
+        unrealizedPnl: format(unrealizedPnl),
+      };
+    });
+  }
+
+  async getUserState(address: string): Promise<UserState> {
+    const [equity, positions] = await Promise.all([
+      this.getAccountEquity(address),
+      this.getPositions(address),
+    ]);
+    return { equity, positions };
+  }
+
+  async getAllMids(): Promise<Record<string, string>> {
+    return Object.fromEntries([...this.mids].map(([coin, px]) => [coin, format(px)]));
+  }
+
+  /**
+   * Quotes half the spread either side of the mid; orders still match at the mid
+   */
+  async getTopOfBook(coin: string): Promise<TopOfBook> {
+    const px = this.mid(coin);
+    const halfSpread = (px * this.spreadBps) / 20000;
+    return { bid: format(px - halfSpread), ask: format(px + halfSpread) };
+  }
+
+  async getCandles(coin: string, interval: CandleInterval, startTime: number): Promise<Candle[]> {
+    const intervalMs = INTERVAL_MS[interval];
+    const candles: Candle[] = [];
+
+    for (const { time, px } of this.history.get(coin) ?? []) {
+      if (time < startTime) continue;
+
+      const bucket = Math.floor(time / intervalMs) * intervalMs;
+      const last = candles[candles.length - 1];
+      if (last?.time === bucket) {
+        last.high = Math.max(last.high, px);
+        last.low = Math.min(last.low, px);
+        last.close = px;
+      } else {
+        candles.push({ time: bucket, open: px, high: px, low: px, close: px });
+      }
+    }
+    return candles;
+  }
+
+  async placeOrder(params: OrderRequest): Promise<PlacedOrder> {
+    if (!params.limitPx) {
+      throw new TradingError('Limit price required', false, { params });
+    }
+
+    const order = this.createOrder(this.address, params);
+    const px = this.mid(params.coin);
+    const crosses = this.crosses(order.side, order.limitPx, px);
+
+    if (order.tif === 'Alo' && crosses) {
+      return this.reject(order, 'Post only order would have immediately matched');
+    }
+    if (order.tif === 'Ioc' && !crosses) {
+      return this.reject(order, 'Order could not immediately match against any resting orders');
+    }
+    if (!crosses) {
+      this.emitOrderUpdate(order);
+      return { orderId: String(order.oid), status: 'resting' };
+    }
+
+    const fill = this.executeOrder(order, px, this.takerFeeBps, true);
+    return {
+      orderId: String(order.oid),
+      status: 'filled',
+      filledSz: fill.sz,
+      avgPx: fill.px,
+    };
+  }
+
+  async placeOrders(orders: OrderRequest[]): Promise<BatchOrderResult[]> {
+    const results: BatchOrderResult[] = [];
+    for (const order of orders) {
+      results.push(await this.settle(this.placeOrder(order)));
+    }
+    return results;
+  }
+
+  async placeTriggerOrder(params: TriggerOrderRequest): Promise<string> {
+    const order = this.createOrder(this.address, {
+      coin: params.coin,
+      side: params.side,
+      sz: params.sz,
+      limitPx: params.triggerPx,
+      orderType: 'Market',
+      reduceOnly: true,
+    });
+    order.trigger = { triggerPx: parseFloat(params.triggerPx), tpsl: params.tpsl };
+    this.emitOrderUpdate(order);
+    return String(order.oid);
+  }
+
+  async getTriggerOrders(address: string): Promise<TriggerOrder[]> {
+    return [...this.orders.values()]
+      .filter((order) => order.owner === address && order.status === 'open' && order.trigger)
+      .map((order) => ({
+        orderId: String(order.oid),
+        coin: order.coin,
+        side: order.side,
+        sz: format(order.sz),
+        triggerPx: format(order.trigger!.triggerPx),
+        tpsl: order.trigger!.tpsl,
+      }));
+  }
+
+  async cancelOrder(coin: string, orderId: string): Promise<void> {
+    const order = this.findOrder(orderId);
+    if (!order || order.coin !== coin || order.owner !== this.address) {
+      throw new TradingError('Cancel rejected: Order was never placed, already canceled, or filled', false, {
+        coin,
+        orderId,
+      });
+    }
+    if (order.status === 'open') {
+      order.status = 'canceled';
+      this.emitOrderUpdate(order);
+    }
+  }
+
+  async cancelOrderByCloid(coin: string, cloid: string): Promise<void> {
+    return this.cancelOrder(coin, cloid);
+  }
+
+  /**
+   * Cancel the order and place its replacement, which gets a new order ID
+   */
+  async modifyOrder(request: ModifyRequest): Promise<void> {
+    const result = await this.settle(this.modify(request));
+    if ('error' in result) {
+      throw new TradingError(`Exchange rejected modify: ${result.error}`, false, { request });
+    }
+  }
+
+  async modifyOrders(requests: ModifyRequest[]): Promise<BatchOrderResult[]> {
+    const results: BatchOrderResult[] = [];
+    for (const request of requests) {
+      results.push(await this.settle(this.modify(request)));
+    }
+    return results;
+  }
+
+  async updateLeverage(coin: string, leverage: number, isCross: boolean): Promise<void> {
+    const asset = this.asset(coin);
+    if (leverage < 1 || leverage > asset.maxLeverage) {
+      throw new TradingError(`Exchange rejected updateLeverage: Invalid leverage value`, false, {
+        coin,
+        leverage,
+      });
+    }
+    if (isCross && asset.onlyIsolated) {
+      throw new TradingError('Exchange rejected updateLeverage: Cross margin is not allowed for this asset', false, {
+        coin,
+      });
+    }
+    this.account(this.address).leverage.set(coin, {
+      type: isCross ? 'cross' : 'isolated',
+      value: leverage,
+    });
+  }
+
+  async getOrderStatus(orderId: string): Promise<OrderStatusInfo> {
+    const order = this.findOrder(orderId);
+    if (!order) {
+      throw new TradingError('Unknown order', false, { orderId });
+    }
+    return {
+      orderId: String(order.oid),
+      status: order.status,
+      origSz: format(order.origSz),
+      remainingSz: format(order.sz),
+    };
+  }
+
+  async subscribeToUserFills(
+    address: string,
+    onFill: (fill: FillEvent) => void,
+    onSnapshot?: (fills: FillEvent[]) => void
+  ): Promise<() => void> {
+    const key = address.toLowerCase();
+    const listeners = this.listeners.get(key) ?? new Set();
+    listeners.add(onFill);
+    this.listeners.set(key, listeners);
+
+    // Like the live feed, the first message is a snapshot of past fills
+    const snapshot = [...this.account(address).fills];
+    queueMicrotask(() => onSnapshot?.(snapshot));
+
+    return () => {
+      listeners.delete(onFill);
+    };
+  }
+
+  async subscribeToOrderUpdates(onUpdate: (update: OrderUpdate) => void): Promise<() => void> {
+    this.orderListeners.add(onUpdate);
+    return () => {
+      this.orderListeners.delete(onUpdate);
+    };
+  }
+
+  // Matching and accounting
+
+  /**
+   * Find one of our orders by order ID or client order ID
+   */
+  private findOrder(orderId: string): MockOrder | undefined {
+    if (!orderId.startsWith('0x')) {
+      return this.orders.get(Number(orderId));
+    }
+    // Latest first, since a modified order's replacement keeps its cloid
+    return [...this.orders.values()]
+      .reverse()
+      .find((order) => order.owner === this.address && order.cloid === orderId);
+  }
+
+  private async modify(request: ModifyRequest): Promise<PlacedOrder> {
+    const order = this.findOrder(request.orderId);
+    if (!order || order.status !== 'open' || order.owner !== this.address) {
+      throw new TradingError('Cannot modify canceled or filled order', false, { request });
+    }
+
+    order.status = 'canceled';
+    this.emitOrderUpdate(order);
+    return this.placeOrder({ ...request.order, cloid: request.order.cloid ?? order.cloid });
+  }
+
+  /**
+   * Result of one order in a batch: a rejection doesn't fail the others
+   */
+  private async settle(placing: Promise<PlacedOrder>): Promise<BatchOrderResult> {
+    try {
+      return await placing;
+    } catch (error) {
+      return { error: ErrorHandler.getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Validate an order and add it to the book as open
+   */
+  private createOrder(owner: string, params: OrderRequest): MockOrder {
+    const asset = this.asset(params.coin);
+    const sz = parseFloat(params.sz);
+    const limitPx = parseFloat(params.limitPx ?? '');
+
+    if (!(sz > 0) || roundSize(sz, asset.szDecimals) !== removeTrailingZeros(params.sz)) {
+      throw new TradingError('Order rejected: Order has invalid size', false, { params });
+    }
+    if (!(limitPx > 0) || roundPrice(limitPx, asset.szDecimals) !== format(limitPx)) {
+      throw new TradingError('Order rejected: Order has invalid price', false, { params });
+    }
+
+    const order: MockOrder = {
+      oid: this.nextOid++,
+      owner,
+      coin: params.coin,
+      side: params.side,
+      origSz: sz,
+      sz,
+      limitPx,
+      reduceOnly: params.reduceOnly,
+      tif: params.tif ?? 'Gtc',
+      cloid: params.cloid,
+      status: 'open',
+    };
+    this.orders.set(order.oid, order);
+    return order;
+  }
+
+  /**
+   * Mark an order rejected and raise the exchange's error
+   */
+  private reject(order: MockOrder, reason: string): never {
+    order.status = 'rejected';
+    this.emitOrderUpdate(order);
+    throw new TradingError(`Order rejected: ${reason}`, false, {
+      coin: order.coin,
+      oid: order.oid,
+    });
+  }
+
+  /**
+   * Fill an open order in full at a price and emit the fill to subscribers
+   */
+  private executeOrder(order: MockOrder, px: number, feeBps: number, crossed: boolean): FillEvent {
+    const account = this.account(order.owner);
+    const position = account.positions.get(order.coin) ?? { szi: 0, entryPx: 0 };
+    const direction = order.side === 'B' ? 1 : -1;
+    let sz = order.sz;
+
+    if (order.reduceOnly) {
+      if (position.szi === 0 || Math.sign(position.szi) === direction) {
+        return this.reject(order, 'Reduce only order would increase position');
+      }
+      sz = Math.min(sz, Math.abs(position.szi));
+    }
+
+    const startPosition = position.szi;
+    const newSzi = startPosition + direction * sz;
+
+    // Realize PnL on the part that closes existing exposure
+    const closing = Math.sign(startPosition) === -direction ? Math.min(sz, Math.abs(startPosition)) : 0;
+    const closedPnl = closing * (px - position.entryPx) * Math.sign(startPosition);
+    const fee = (sz * px * feeBps) / 10_000;
+
+    let entryPx = position.entryPx;
+    if (Math.sign(newSzi) !== Math.sign(startPosition)) {
+      entryPx = px; // Opened or flipped
+    } else if (Math.abs(newSzi) > Math.abs(startPosition)) {
+      entryPx = (Math.abs(startPosition) * position.entryPx + sz * px) / Math.abs(newSzi);
+    }
+
+    const previousBalance = account.balance;
+    account.balance += closedPnl - fee;
+    this.setPosition(account, order.coin, newSzi, entryPx);
+
+    // Increases must stay within initial margin
+    if (Math.abs(newSzi) > Math.abs(startPosition)) {
+      const { accountValue, marginUsed } = this.marginState(account);
+      if (marginUsed > accountValue) {
+        account.balance = previousBalance;
+        this.setPosition(account, order.coin, startPosition, position.entryPx);
+        return this.reject(order, 'Insufficient margin to place order');
+      }
+    }
+
+    order.sz = 0;
+    order.status = 'filled';
+
+    const fill: FillEvent = {
+      coin: order.coin,
+      px: format(px),
+      sz: format(sz),
+      side: order.side,
+      time: Date.now(),
+      startPosition: format(startPosition),
+      dir: fillDirection(startPosition, newSzi),
+      closedPnl: format(closedPnl),
+      hash: `0x${randomBytes(32).toString('hex')}`,
+      oid: order.oid,
+      tid: this.nextTid++,
+      crossed,
+      fee: format(fee),
+    };
+
+    account.fills.push(fill);
+    const listeners = this.listeners.get(order.owner.toLowerCase());
+    for (const listener of listeners ?? []) {
+      queueMicrotask(() => listener(fill));
+    }
+
+    this.emitOrderUpdate(order);
+
+    logger.debug('Mock exchange fill', { owner: order.owner, ...fill });
+    return fill;
+  }
+
+  /**
+   * Send an order's current status to our order update subscribers
+   */
+  private emitOrderUpdate(order: MockOrder): void {
+    if (order.owner !== this.address) return;
+
+    const update: OrderUpdate = {
+      orderId: String(order.oid),
+      coin: order.coin,
+      side: order.side,
+      status: order.status,
+      origSz: format(order.origSz),
+      remainingSz: format(order.sz),
+      limitPx: format(order.limitPx),
+      timestamp: Date.now(),
+    };
+    for (const listener of this.orderListeners) {
+      queueMicrotask(() => listener(update));
+    }
+  }
+
+  /**
+   * Close every position of accounts whose equity fell below maintenance margin
+   */
+  private liquidate(): void {
+    for (const [address, account] of this.accounts) {
+      const { accountValue, maintenance } = this.marginState(account);
+      if (account.positions.size === 0 || accountValue >= maintenance) continue;
+
+      logger.warn('Mock exchange liquidation', { address, accountValue, maintenance });
+      for (const [coin, position] of [...account.positions]) {
+        const order = this.createOrder(address, {
+          coin,
+          side: position.szi > 0 ? 'A' : 'B',
+          sz: format(Math.abs(position.szi)),
+          limitPx: roundPrice(this.mid(coin), this.asset(coin).szDecimals),
+          orderType: 'Market',
+          tif: 'Ioc',
+          reduceOnly: true,
+        });
+        this.executeOrder(order, this.mid(coin), this.takerFeeBps, true);
+      }
+    }
+  }
+
+  /**
+   * Account value and cross margin totals at current mids
+   */
+  private marginState(account: MockAccount): {
+    accountValue: number;
+    notional: number;
+    marginUsed: number;
+    maintenance: number;
+  } {
+    let unrealized = 0;
+    let notional = 0;
+    let marginUsed = 0;
+    let maintenance = 0;
+
+    for (const [coin, position] of account.positions) {
+      const mid = this.mid(coin);
+      const positionNotional = Math.abs(position.szi) * mid;
+      unrealized += position.szi * (mid - position.entryPx);
+      notional += positionNotional;
+      marginUsed += positionNotional / this.leverageFor(account, coin).value;
+      maintenance += positionNotional * maintenanceMarginRate(this.asset(coin).maxLeverage);
+    }
+
+    return { accountValue: account.balance + unrealized, notional, marginUsed, maintenance };
+  }
+
+  private setPosition(account: MockAccount, coin: string, szi: number, entryPx: number): void {
+    // Drop float dust left by repeated partial closes
+    if (Math.abs(szi) < 1e-9) {
+      account.positions.delete(coin);
+    } else {
+      account.positions.set(coin, { szi, entryPx });
+    }
+  }
+
+  /**
+   * Whether a limit price crosses the mid
+   */
+  private crosses(side: Side, limitPx: number, mid: number): boolean {
+    return side === 'B' ? limitPx >= mid : limitPx <= mid;
+  }
+
+  /**
+   * Whether a trigger order's condition is met
+   * Sell stops fire below the trigger and sell take-profits above it, and the reverse for buys
+   */
+  private isTriggered(order: MockOrder, px: number): boolean {
+    const { triggerPx, tpsl } = order.trigger!;
+    const firesAbove = (order.side === 'A') === (tpsl === 'tp');
+    return firesAbove ? px >= triggerPx : px <= triggerPx;
+  }
+
+  private recordPrice(coin: string, px: number): void {
+    this.mids.set(coin, px);
+    const history = this.history.get(coin) ?? [];
+    history.push({ time: Date.now(), px });
+    this.history.set(coin, history);
+  }
+
+  private mid(coin: string): number {
+    const px = this.mids.get(coin);
+    if (px === undefined) {
+      throw new ValidationError(`No price for ${coin}`, { coin });
+    }
+    return px;
+  }
+
+  private asset(coin: string): MockAsset {
+    const asset = this.assets.get(coin);
+    if (!asset) {
+      throw new ValidationError(`Unknown asset ${coin}`, { coin });
+    }
+    return asset;
+  }
+
+  private account(address: string): MockAccount {
+    const key = address.toLowerCase();
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { balance: 0, positions: new Map(), leverage: new Map(), fills: [] };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  /**
+   * Leverage setting for a coin, defaulting to 20x cross capped by the asset
+   */
+  private leverageFor(account: MockAccount, coin: string): Position['leverage'] {
+    const asset = this.asset(coin);
+    return (
+      account.leverage.get(coin) ?? {
+        type: asset.onlyIsolated ? 'isolated' : 'cross',
+        value: Math.min(20, asset.maxLeverage),
+      }
+    );
+  }
+}
+
+/**
+ * Hyperliquid fill direction for a position change
+ */
+function fillDirection(startPosition: number, newPosition: number): FillDirection {
+  if (startPosition > 0 && newPosition < 0) return 'Long > Short';
+  if (startPosition < 0 && newPosition > 0) return 'Short > Long';
+  if (Math.abs(newPosition) > Math.abs(startPosition)) {
+    return newPosition > 0 ? 'Open Long' : 'Open Short';
+  }
+  return startPosition > 0 ? 'Close Long' : 'Close Short';
+}
+
+/**
+ * Number as an API string without trailing zeros
+ */
+function format(value: number): string {
+  return removeTrailingZeros(value.toFixed(8));
+}
@@ -0,0 +1,117 @@
+import { Wallet } from 'ethers';
+import { TradingError } from '../utils/errors.js';
+import { RequestWeightLimiter, REQUEST_WEIGHTS } from '../utils/rateLimiter.js';
+import { postJson } from './http.js';
+import { signL1Action } from './signing.js';
+import type {
+  CancelStatus,
+  ExchangeAction,
+  ExchangeResponse,
+  OrderStatus,
+  OrderWire,
+} from './types.js';
+
+/**
+ * Typed client for the /exchange endpoint
+ * Signs each action with our wallet under a fresh nonce
+ */
+export class ExchangeClient {
+  private wallet: Wallet;
+  private url: string;
+  private isMainnet: boolean;
+  private rateLimiter: RequestWeightLimiter;
+  private lastNonce = 0;
+
+  constructor(
+    wallet: Wallet,
+    baseUrl: string,
+    isMainnet: boolean,
+    rateLimiter: RequestWeightLimiter
+  ) {
+    this.wallet = wallet;
+    this.url = `${baseUrl}/exchange`;
+    this.isMainnet = isMainnet;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Place orders, returning one status per order
+   */
+  async order(orders: OrderWire[], grouping: 'na' | 'normalTpsl' = 'na'): Promise<OrderStatus[]> {
+    return this.send<OrderStatus>({ type: 'order', orders, grouping }, orders.length);
+  }
+
+  /**
+   * Cancel orders by asset index and order ID, returning one status per cancel
+   */
+  async cancel(cancels: Array<{ a: number; o: number }>): Promise<CancelStatus[]> {
+    return this.send<CancelStatus>({ type: 'cancel', cancels }, cancels.length);
+  }
+
+  /**
+   * Cancel orders by asset index and client order ID, returning one status per cancel
+   */
+  async cancelByCloid(cancels: Array<{ asset: number; cloid: string }>): Promise<CancelStatus[]> {
+    return this.send<CancelStatus>({ type: 'cancelByCloid', cancels }, cancels.length);
+  }
+
+  /**
+   * Replace a resting order's price and size in place
+   * `oid` is the exchange order ID or the client order ID
+   */
+  async modify(oid: number | string, order: OrderWire): Promise<void> {
+    await this.send({ type: 'modify', oid, order }, 1);
+  }
+
+  /**
+   * Replace several resting orders in one action, returning one status per order
+   */
+  async batchModify(
+    modifies: Array<{ oid: number | string; order: OrderWire }>
+  ): Promise<OrderStatus[]> {
+    return this.send<OrderStatus>({ type: 'batchModify', modifies }, modifies.length);
+  }
+
+  /**
+   * Set leverage and margin mode for an asset
+   */
+  async updateLeverage(asset: number, isCross: boolean, leverage: number): Promise<void> {
+    await this.send({ type: 'updateLeverage', asset, isCross, leverage }, 1);
+  }
+
+  /**
+   * Sign and submit an action
+   * Batches weigh 1 plus 1 per 40 items
+   */
+  private async send<T>(action: ExchangeAction, batchLength: number): Promise<T[]> {
+    this.rateLimiter.consume(
+      REQUEST_WEIGHTS.exchange + Math.floor(batchLength / 40),
+      action.type
+    );
+
+    const nonce = this.nextNonce();
+    const signature = await signL1Action(this.wallet, action, nonce, this.isMainnet);
+    const response = await postJson<ExchangeResponse<T>>(this.url, {
+      action,
+      nonce,
+      signature,
+      vaultAddress: null,
+    });
+
+    if (response.status === 'err') {
+      throw new TradingError(`Exchange rejected ${action.type}: ${response.response}`, false, {
+        action: action.type,
+      });
+    }
+
+    return response.response.data?.statuses ?? [];
+  }
+
+  /**
+   * Millisecond timestamp nonce, strictly increasing so concurrent actions never collide
+   */
+  private nextNonce(): number {
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1);
+    return this.lastNonce;
+  }
+}
@@ -0,0 +1,44 @@
+import { NetworkError, RateLimitError } from '../utils/errors.js';
+
+/**
+ * Request timeout for /info and /exchange
+ */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * POST a JSON body and parse the JSON response
+ * HTTP 429 becomes a RateLimitError and any other failure a NetworkError
+ */
+export async function postJson<T>(url: string, body: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new NetworkError(`Request to ${url} failed`, {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const text = await response.text();
+
+  if (response.status === 429) {
+    throw new RateLimitError(`Rate limited by ${url}`, undefined, { body: text });
+  }
+  if (!response.ok) {
+    throw new NetworkError(`Request to ${url} failed with HTTP ${response.status}`, {
+      status: response.status,
+      body: text.substring(0, 200),
+    });
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new NetworkError(`Invalid JSON from ${url}`, { body: text.substring(0, 200) });
+  }
+}
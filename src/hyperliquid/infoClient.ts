@@ -0,0 +1,92 @@
+import { RequestWeightLimiter, REQUEST_WEIGHTS } from '../utils/rateLimiter.js';
+import { postJson } from './http.js';
+import type { CandleInterval } from '../types.js';
+import type {
+  ClearinghouseState,
+  MetaAndAssetCtxsResponse,
+  MetaResponse,
+  OrderStatusResponse,
+  WireFrontendOrder,
+  WsL2Book,
+  WireCandle,
+} from './types.js';
+
+/**
+ * Typed client for the /info endpoint
+ * Every request draws its Hyperliquid weight from the shared limiter first
+ */
+export class InfoClient {
+  private url: string;
+  private rateLimiter: RequestWeightLimiter;
+
+  constructor(baseUrl: string, rateLimiter: RequestWeightLimiter) {
+    this.url = `${baseUrl}/info`;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Perp universe
+   */
+  meta(): Promise<MetaResponse> {
+    return this.request('meta', { type: 'meta' });
+  }
+
+  /**
+   * Perp universe with mark price, volume and open interest per asset
+   */
+  metaAndAssetCtxs(): Promise<MetaAndAssetCtxsResponse> {
+    return this.request('metaAndAssetCtxs', { type: 'metaAndAssetCtxs' });
+  }
+
+  /**
+   * Margin summary and positions for a user
+   */
+  clearinghouseState(user: string): Promise<ClearinghouseState> {
+    return this.request('clearinghouseState', { type: 'clearinghouseState', user });
+  }
+
+  /**
+   * Mid prices by coin
+   */
+  allMids(): Promise<Record<string, string>> {
+    return this.request('allMids', { type: 'allMids' });
+  }
+
+  /**
+   * Top levels of a coin's order book
+   */
+  l2Book(coin: string): Promise<WsL2Book> {
+    return this.request('l2Book', { type: 'l2Book', coin });
+  }
+
+  /**
+   * Candles for a coin between two times
+   */
+  candleSnapshot(req: {
+    coin: string;
+    interval: CandleInterval;
+    startTime: number;
+    endTime: number;
+  }): Promise<WireCandle[]> {
+    return this.request('candleSnapshot', { type: 'candleSnapshot', req });
+  }
+
+  /**
+   * Status of an order by order ID or client order ID
+   */
+  orderStatus(user: string, oid: number | string): Promise<OrderStatusResponse> {
+    return this.request('orderStatus', { type: 'orderStatus', user, oid });
+  }
+
+  /**
+   * Open orders for a user, including trigger orders
+   */
+  frontendOpenOrders(user: string): Promise<WireFrontendOrder[]> {
+    return this.request('frontendOpenOrders', { type: 'frontendOpenOrders', user });
+  }
+
+  private request<T>(type: keyof typeof REQUEST_WEIGHTS, body: Record<string, unknown>): Promise<T> {
+    this.rateLimiter.consume(REQUEST_WEIGHTS[type], type);
+    return postJson<T>(this.url, body);
+  }
+}
@@ -0,0 +1,71 @@
+import { encode } from '@msgpack/msgpack';
+import { Signature, Wallet, concat, getBytes, keccak256, toBeHex } from 'ethers';
+import type { ExchangeAction } from './types.js';
+
+/**
+ * Hyperliquid L1 action signing
+ * An action is hashed as msgpack(action) + nonce + vault address, wrapped in a
+ * "phantom agent" and signed as EIP-712 typed data
+ */
+
+/**
+ * EIP-712 domain for L1 actions
+ */
+const DOMAIN = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000',
+};
+
+const AGENT_TYPES = {
+  Agent: [
+    { name: 'source', type: 'string' },
+    { name: 'connectionId', type: 'bytes32' },
+  ],
+};
+
+/**
+ * Signature in the form /exchange expects
+ */
+export interface ActionSignature {
+  r: string;
+  s: string;
+  v: number;
+}
+
+/**
+ * Hash of an action, its nonce and the optional vault address
+ */
+export function actionHash(
+  action: ExchangeAction,
+  nonce: number,
+  vaultAddress?: string
+): string {
+  const vault = vaultAddress
+    ? concat([new Uint8Array([1]), getBytes(vaultAddress)])
+    : new Uint8Array([0]);
+
+  // Optional fields left undefined must be absent, not nil, to match the exchange's hash
+  const packed = encode(action, { ignoreUndefined: true });
+  return keccak256(concat([packed, getBytes(toBeHex(nonce, 8)), vault]));
+}
+
+/**
+ * Sign an L1 action with our wallet
+ */
+export async function signL1Action(
+  wallet: Wallet,
+  action: ExchangeAction,
+  nonce: number,
+  isMainnet: boolean,
+  vaultAddress?: string
+): Promise<ActionSignature> {
+  const agent = {
+    source: isMainnet ? 'a' : 'b',
+    connectionId: actionHash(action, nonce, vaultAddress),
+  };
+
+  const signature = Signature.from(await wallet.signTypedData(DOMAIN, AGENT_TYPES, agent));
+  return { r: signature.r, s: signature.s, v: signature.v };
+}
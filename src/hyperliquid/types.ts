@@ -0,0 +1,270 @@
+import type { FillEvent, TimeInForce, TpSl } from '../types.js';
+
+/**
+ * Hyperliquid API wire types
+ * Shapes of the /info and /exchange request and response bodies and the /ws
+ * messages, as documented at https://hyperliquid.gitbook.io/hyperliquid-docs
+ */
+
+/**
+ * Perp universe entry from `meta`
+ */
+export interface UniverseAsset {
+  name: string;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated?: boolean;
+  isDelisted?: boolean;
+}
+
+export interface MetaResponse {
+  universe: UniverseAsset[];
+}
+
+/**
+ * Per-asset market data from `metaAndAssetCtxs`, in universe order
+ */
+export interface PerpAssetCtx {
+  markPx: string;
+  midPx: string | null;
+  oraclePx: string;
+  dayNtlVlm: string;
+  openInterest: string; // In coins
+  funding: string;
+}
+
+export type MetaAndAssetCtxsResponse = [MetaResponse, PerpAssetCtx[]];
+
+export interface MarginSummary {
+  accountValue: string;
+  totalNtlPos: string;
+  totalRawUsd: string;
+  totalMarginUsed: string;
+}
+
+export interface WirePosition {
+  coin: string;
+  szi: string;
+  entryPx: string;
+  positionValue: string;
+  leverage: { type: 'cross' | 'isolated'; value: number; rawUsd?: string };
+  liquidationPx: string | null;
+  marginUsed: string;
+  returnOnEquity: string;
+  unrealizedPnl: string;
+  maxLeverage: number;
+}
+
+/**
+ * Account state from `clearinghouseState`
+ */
+export interface ClearinghouseState {
+  marginSummary: MarginSummary;
+  crossMarginSummary: MarginSummary;
+  crossMaintenanceMarginUsed: string;
+  withdrawable: string;
+  assetPositions: Array<{ type: 'oneWay'; position: WirePosition }>;
+  time: number;
+}
+
+export interface WireCandle {
+  t: number; // Open time
+  T: number; // Close time
+  s: string;
+  i: string;
+  o: string;
+  h: string;
+  l: string;
+  c: string;
+  v: string;
+  n: number;
+}
+
+export interface WireOrder {
+  coin: string;
+  side: 'A' | 'B';
+  limitPx: string;
+  sz: string; // Remaining size
+  oid: number;
+  timestamp: number;
+  origSz: string;
+  cloid?: string | null;
+}
+
+/**
+ * Open order from `frontendOpenOrders`, with its trigger details
+ */
+export interface WireFrontendOrder extends WireOrder {
+  isTrigger: boolean;
+  triggerPx: string;
+  triggerCondition: string;
+  reduceOnly: boolean;
+  orderType: string; // Limit, Stop Market, Take Profit Market, ...
+  isPositionTpsl: boolean;
+}
+
+/**
+ * Result of `orderStatus`
+ */
+export type OrderStatusResponse =
+  | {
+      status: 'order';
+      order: {
+        order: WireOrder;
+        status: string; // open, filled, canceled, triggered, rejected, marginCanceled, ...
+        statusTimestamp: number;
+      };
+    }
+  | { status: 'unknownOid' };
+
+/**
+ * Order type on the wire: a limit with time in force, or a trigger
+ */
+export type WireOrderType =
+  | { limit: { tif: TimeInForce } }
+  | { trigger: { isMarket: boolean; triggerPx: string; tpsl: TpSl } };
+
+/**
+ * One order in an `order` action
+ * Key order matters: the action is hashed as msgpack before signing
+ */
+export interface OrderWire {
+  a: number; // Asset index
+  b: boolean; // Is buy
+  p: string; // Limit price
+  s: string; // Size
+  r: boolean; // Reduce only
+  t: WireOrderType;
+  c?: string; // Client order ID
+}
+
+export interface OrderAction {
+  type: 'order';
+  orders: OrderWire[];
+  grouping: 'na' | 'normalTpsl' | 'positionTpsl';
+}
+
+export interface CancelAction {
+  type: 'cancel';
+  cancels: Array<{ a: number; o: number }>;
+}
+
+export interface CancelByCloidAction {
+  type: 'cancelByCloid';
+  cancels: Array<{ asset: number; cloid: string }>;
+}
+
+/**
+ * Replace a resting order, found by order ID or client order ID
+ */
+export interface ModifyAction {
+  type: 'modify';
+  oid: number | string;
+  order: OrderWire;
+}
+
+export interface BatchModifyAction {
+  type: 'batchModify';
+  modifies: Array<{ oid: number | string; order: OrderWire }>;
+}
+
+export interface UpdateLeverageAction {
+  type: 'updateLeverage';
+  asset: number;
+  isCross: boolean;
+  leverage: number;
+}
+
+export type ExchangeAction =
+  | OrderAction
+  | CancelAction
+  | CancelByCloidAction
+  | ModifyAction
+  | BatchModifyAction
+  | UpdateLeverageAction;
+
+/**
+ * Outcome of one order in an `order` or `batchModify` action
+ */
+export type OrderStatus =
+  | { resting: { oid: number; cloid?: string } }
+  | { filled: { totalSz: string; avgPx: string; oid: number; cloid?: string } }
+  | { error: string };
+
+/**
+ * Outcome of one cancel in a `cancel` or `cancelByCloid` action
+ */
+export type CancelStatus = 'success' | { error: string };
+
+/**
+ * Body of an /exchange response
+ * Rejected actions come back as status "err" with a message
+ */
+export type ExchangeResponse<T> =
+  | { status: 'ok'; response: { type: string; data?: { statuses: T[] } } }
+  | { status: 'err'; response: string };
+
+/**
+ * Feeds we subscribe to on /ws
+ */
+export type WsSubscription =
+  | { type: 'userFills'; user: string }
+  | { type: 'orderUpdates'; user: string }
+  | { type: 'allMids' }
+  | { type: 'l2Book'; coin: string };
+
+export interface WsUserFills {
+  isSnapshot?: boolean;
+  user: string;
+  fills: FillEvent[];
+}
+
+/**
+ * Status change of one of our orders
+ */
+export interface WsOrderUpdate {
+  order: WireOrder;
+  status: string; // open, filled, canceled, triggered, rejected, marginCanceled, ...
+  statusTimestamp: number;
+}
+
+export interface WsAllMids {
+  mids: Record<string, string>;
+}
+
+export interface WsBookLevel {
+  px: string;
+  sz: string;
+  n: number; // Number of orders
+}
+
+/**
+ * Order book levels, from the `l2Book` request or subscription
+ */
+export interface WsL2Book {
+  coin: string;
+  time: number;
+  levels: [WsBookLevel[], WsBookLevel[]]; // Bids, asks
+}
+
+/**
+ * Payload delivered for each subscription type
+ */
+export interface WsChannelData {
+  userFills: WsUserFills;
+  orderUpdates: WsOrderUpdate[];
+  allMids: WsAllMids;
+  l2Book: WsL2Book;
+}
+
+/**
+ * Message received on /ws
+ */
+export type WsMessage =
+  | { channel: 'subscriptionResponse'; data: unknown }
+  | { channel: 'pong' }
+  | { channel: 'userFills'; data: WsUserFills }
+  | { channel: 'orderUpdates'; data: WsOrderUpdate[] }
+  | { channel: 'allMids'; data: WsAllMids }
+  | { channel: 'l2Book'; data: WsL2Book }
+  | { channel: 'error'; data: string };
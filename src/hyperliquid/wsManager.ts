@@ -0,0 +1,320 @@
+import WebSocket from 'ws';
+import { config } from '../config.js';
+import { logger, loggerUtils } from '../logger.js';
+import { ErrorHandler } from '../utils/errors.js';
+import type { WsChannelData, WsMessage, WsSubscription } from './types.js';
+
+type Handler = (data: unknown) => void;
+
+interface ActiveSubscription {
+  subscription: WsSubscription;
+  handlers: Set<Handler>;
+}
+
+/**
+ * One managed /ws connection shared by every subscription
+ * Pings to keep the connection alive, treats a silent feed as dead, and
+ * reconnects without limit, restoring every active subscription
+ */
+export class WsManager {
+  private url: string;
+  private ws: WebSocket | null = null;
+  private subscriptions: Map<string, ActiveSubscription> = new Map();
+  private lastMessageAt = 0;
+  private reconnectAttempt = 0;
+  private heartbeatId: NodeJS.Timeout | null = null;
+  private reconnectId: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  /**
+   * Subscribe to a feed, connecting on first use
+   * Handlers on an already active feed share it and get no fresh snapshot.
+   * Returns unsubscribe function; the connection closes with the last subscription
+   */
+  subscribe<T extends WsSubscription>(
+    subscription: T,
+    handler: (data: WsChannelData[T['type']]) => void
+  ): () => void {
+    const key = subscriptionKey(subscription);
+    const entry = handler as Handler;
+
+    let active = this.subscriptions.get(key);
+    if (!active) {
+      active = { subscription, handlers: new Set() };
+      this.subscriptions.set(key, active);
+      // Sent now if open, otherwise on open
+      this.send({ method: 'subscribe', subscription });
+    }
+    active.handlers.add(entry);
+
+    this.closed = false;
+    this.connect();
+
+    const subscribed = active;
+    return () => {
+      if (!subscribed.handlers.delete(entry) || subscribed.handlers.size > 0) {
+        return;
+      }
+
+      this.subscriptions.delete(key);
+      this.send({ method: 'unsubscribe', subscription });
+      loggerUtils.logWebSocket('unsubscribe', 'WebSocket unsubscribed', { subscription });
+
+      if (this.subscriptions.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Open and receiving: a socket that has gone silent past the stale timeout
+   * counts as down even before it is torn down
+   */
+  isConnected(): boolean {
+    return (
+      this.ws?.readyState === WebSocket.OPEN &&
+      Date.now() - this.lastMessageAt <= config.WS_STALE_TIMEOUT * 1000
+    );
+  }
+
+  /**
+   * Close the connection and drop all subscriptions without reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    this.subscriptions.clear();
+    this.stopHeartbeat();
+
+    if (this.reconnectId) {
+      clearTimeout(this.reconnectId);
+      this.reconnectId = null;
+    }
+
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.close();
+      loggerUtils.logWebSocket('close', 'WebSocket closed', { url: this.url });
+    }
+  }
+
+  /**
+   * Open the socket unless one is open, connecting or scheduled
+   */
+  private connect(): void {
+    if (this.ws || this.reconnectId) {
+      return;
+    }
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url);
+    } catch (error) {
+      logger.error('Failed to create WebSocket connection', {
+        ...ErrorHandler.formatError(error),
+        url: this.url,
+      });
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.ws = ws;
+    // A handshake that hangs is caught by the same staleness check as a silent feed
+    this.lastMessageAt = Date.now();
+    this.startHeartbeat();
+
+    ws.on('open', () => {
+      this.reconnectAttempt = 0;
+      this.lastMessageAt = Date.now();
+      loggerUtils.logWebSocket('open', 'WebSocket connected', {
+        url: this.url,
+        subscriptions: this.subscriptions.size,
+      });
+
+      for (const { subscription } of this.subscriptions.values()) {
+        this.send({ method: 'subscribe', subscription });
+      }
+    });
+
+    ws.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.dispatch(data);
+    });
+
+    ws.on('error', (error: Error) => {
+      logger.error('WebSocket error', {
+        ...ErrorHandler.formatError(error),
+        url: this.url,
+      });
+    });
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      // Ignore sockets we already replaced or closed on purpose
+      if (this.ws !== ws) {
+        return;
+      }
+
+      this.ws = null;
+      this.stopHeartbeat();
+      logger.warn('WebSocket closed', {
+        code,
+        reason: reason.length > 0 ? reason.toString() : 'Unknown',
+        url: this.url,
+      });
+
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Reconnect after an exponential backoff with jitter, with no attempt limit
+   * The delay is drawn between half and all of the backoff so clients spread out
+   */
+  private scheduleReconnect(): void {
+    const ceiling = Math.min(
+      config.WS_RECONNECT_MAX_DELAY * 1000,
+      1000 * Math.pow(2, this.reconnectAttempt)
+    );
+    const delay = Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+    this.reconnectAttempt++;
+
+    logger.info(`WebSocket reconnection attempt ${this.reconnectAttempt} in ${delay}ms`, {
+      url: this.url,
+    });
+
+    this.reconnectId = setTimeout(() => {
+      this.reconnectId = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Ping on an interval and tear the socket down once no message has arrived
+   * within the stale timeout; the close handler then reconnects
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatId = setInterval(() => {
+      const ws = this.ws;
+      if (!ws) {
+        return;
+      }
+
+      const silentMs = Date.now() - this.lastMessageAt;
+      if (silentMs > config.WS_STALE_TIMEOUT * 1000) {
+        loggerUtils.logWebSocket('stale', 'No WebSocket message within stale timeout, reconnecting', {
+          url: this.url,
+          silentMs,
+        });
+        ws.terminate();
+        return;
+      }
+
+      this.send({ method: 'ping' });
+    }, config.WS_PING_INTERVAL * 1000);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId);
+      this.heartbeatId = null;
+    }
+  }
+
+  /**
+   * Send a request if the socket is open
+   */
+  private send(payload: Record<string, unknown>): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    try {
+      this.ws.send(JSON.stringify(payload));
+    } catch (error) {
+      logger.error('Failed to send WebSocket request', {
+        ...ErrorHandler.formatError(error),
+        method: payload.method,
+      });
+    }
+  }
+
+  /**
+   * Route a message to the handlers of its subscription
+   */
+  private dispatch(data: WebSocket.RawData): void {
+    let message: WsMessage;
+    try {
+      message = JSON.parse(data.toString()) as WsMessage;
+    } catch (error) {
+      logger.error('Failed to parse WebSocket message', {
+        error: ErrorHandler.formatError(error),
+        data: data.toString().substring(0, 200),
+      });
+      return;
+    }
+
+    switch (message.channel) {
+      case 'userFills':
+        this.deliver(`userFills:${message.data.user.toLowerCase()}`, message.data);
+        break;
+      case 'orderUpdates':
+        // Updates carry no user, so every orderUpdates subscription receives them
+        for (const [key, active] of this.subscriptions) {
+          if (active.subscription.type === 'orderUpdates') {
+            this.deliver(key, message.data);
+          }
+        }
+        break;
+      case 'allMids':
+        this.deliver('allMids', message.data);
+        break;
+      case 'l2Book':
+        this.deliver(`l2Book:${message.data.coin}`, message.data);
+        break;
+      case 'error':
+        logger.error('WebSocket error message', { error: message.data, url: this.url });
+        break;
+    }
+  }
+
+  private deliver(key: string, data: unknown): void {
+    const active = this.subscriptions.get(key);
+    if (!active) {
+      return;
+    }
+
+    for (const handler of active.handlers) {
+      try {
+        handler(data);
+      } catch (error) {
+        logger.error('Error in WebSocket handler', {
+          error: ErrorHandler.formatError(error),
+          subscription: active.subscription,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Identity of a feed: one server subscription per key
+ */
+function subscriptionKey(subscription: WsSubscription): string {
+  switch (subscription.type) {
+    case 'userFills':
+    case 'orderUpdates':
+      return `${subscription.type}:${subscription.user.toLowerCase()}`;
+    case 'allMids':
+      return 'allMids';
+    case 'l2Book':
+      return `l2Book:${subscription.coin}`;
+  }
+}
@@ -1,74 +1,59 @@
 import { Wallet } from 'ethers';
 import { config } from './config.js';
 import { logger, loggerUtils } from './logger.js';
+import { InfoClient } from './hyperliquid/infoClient.js';
+import { ExchangeClient } from './hyperliquid/exchangeClient.js';
+import { WsManager } from './hyperliquid/wsManager.js';
 import {
-  SDKError,
   NetworkError,
-  WebSocketError,
   TradingError,
   AccountError,
+  ValidationError,
+  RateLimitError,
   ErrorHandler,
 } from './utils/errors.js';
-import type { AccountEquity, Position } from './types.js';
+import { RequestWeightLimiter } from './utils/rateLimiter.js';
+import { getMarketType, removeTrailingZeros } from './utils/risk.js';
+import type { OrderStatus, OrderWire } from './hyperliquid/types.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import type {
+  AccountEquity,
+  AssetContext,
+  AssetMeta,
+  BatchOrderResult,
+  Candle,
+  CandleInterval,
+  FillEvent,
+  ModifyRequest,
+  OrderRequest,
+  OrderStatusInfo,
+  OrderUpdate,
+  PlacedOrder,
+  Position,
+  TopOfBook,
+  TriggerOrder,
+  TriggerOrderRequest,
+  UserState,
+} from './types.js';
 
 /**
- * Hyperliquid SDK Client wrapper
- * Handles initialization and provides typed methods for API calls
- * 
- * NOTE: The actual SDK structure may vary. Common options:
- * - @nktkas/hyperliquid (community SDK)
- * - nomeida/hyperliquid (alternative community SDK)
- * - Official Hyperliquid API (direct HTTP/WebSocket)
- * 
- * Adjust imports below based on your chosen SDK.
- * If SDK doesn't exist, you may need to implement direct API calls.
+ * How long a coin missing from the universe is remembered before another reload
  */
+const UNKNOWN_ASSET_TTL_MS = 5 * 60_000;
 
-// Placeholder for SDK imports - adjust based on actual package
-// Example structure (adjust as needed):
-// import { ExchangeClient, InfoClient } from '@nktkas/hyperliquid';
-// or
-// import Hyperliquid from '@nktkas/hyperliquid';
-
-// For now, we'll use dynamic imports with fallback
-let ExchangeClient: any;
-let InfoClient: any;
-let WebSocketClient: any;
-
-async function loadSDK(): Promise<void> {
-  try {
-    // Try @nktkas/hyperliquid first
-    const hyperliquid = await import('@nktkas/hyperliquid');
-    ExchangeClient = hyperliquid.ExchangeClient || hyperliquid.default?.ExchangeClient;
-    InfoClient = hyperliquid.InfoClient || hyperliquid.default?.InfoClient;
-    WebSocketClient = hyperliquid.WebSocketClient || hyperliquid.default?.WebSocketClient;
-    
-    if (!ExchangeClient || !InfoClient) {
-      throw new SDKError('SDK structure not recognized', {
-        availableExports: Object.keys(hyperliquid),
-      });
-    }
-    
-    logger.info('Hyperliquid SDK loaded successfully');
-  } catch (error) {
-    const formattedError = ErrorHandler.formatError(error);
-    logger.error('Failed to load Hyperliquid SDK', formattedError);
-    logger.warn('You may need to install: npm install @nktkas/hyperliquid');
-    logger.warn('Or implement direct API calls to Hyperliquid endpoints');
-    throw new SDKError(
-      'Hyperliquid SDK not found. Please install @nktkas/hyperliquid or implement direct API calls.',
-      formattedError.context
-    );
-  }
-}
-
-export class HyperliquidClientWrapper {
+/**
+ * Hyperliquid client wrapper
+ * Typed access to the /info, /exchange and /ws endpoints through the in-house
+ * clients in src/hyperliquid, plus asset metadata caching
+ */
+export class HyperliquidClientWrapper implements ExchangeAdapter {
   private wallet: Wallet;
-  private exchangeClient: any;
-  private infoClient: any;
-  private wsClient: any;
-  private isConnected: boolean = false;
+  private exchangeClient: ExchangeClient;
+  private infoClient: InfoClient;
+  private ws: WsManager;
   private baseUrl: string;
+  private assetMeta: Map<string, AssetMeta> = new Map();
+  private unknownAssets: Map<string, number> = new Map();
 
   constructor() {
     // Initialize wallet from private key
@@ -79,6 +64,21 @@ export class HyperliquidClientWrapper {
       ? 'https://api.hyperliquid-testnet.xyz'
       : 'https://api.hyperliquid.xyz';
 
+    // Both clients share one request weight budget
+    const rateLimiter = new RequestWeightLimiter(config.REQUEST_WEIGHT_LIMIT);
+    this.infoClient = new InfoClient(this.baseUrl, rateLimiter);
+    this.exchangeClient = new ExchangeClient(
+      this.wallet,
+      this.baseUrl,
+      !config.TESTNET,
+      rateLimiter
+    );
+
+    // Every subscription shares one managed connection
+    this.ws = new WsManager(
+      config.TESTNET ? 'wss://api.hyperliquid-testnet.xyz/ws' : 'wss://api.hyperliquid.xyz/ws'
+    );
+
     logger.info('Hyperliquid client wrapper created', {
       address: this.wallet.address,
       testnet: config.TESTNET,
@@ -87,63 +87,200 @@ export class HyperliquidClientWrapper {
   }
 
   /**
-   * Initialize SDK clients (call after SDK is loaded)
+   * Load exchange metadata (call before trading)
    */
   async initialize(): Promise<void> {
-    await loadSDK();
-
-    // Initialize exchange client for placing orders
-    // Adjust constructor parameters based on actual SDK
-    this.exchangeClient = new ExchangeClient(this.wallet, {
-      baseUrl: this.baseUrl,
-      testnet: config.TESTNET,
-    });
-
-    // Initialize info client for querying data
-    this.infoClient = new InfoClient({ baseUrl: this.baseUrl });
+    // Cache asset indices, precision and leverage limits
+    await this.loadMeta();
 
     logger.info('Hyperliquid clients initialized', {
       address: this.wallet.address,
       testnet: config.TESTNET,
+      assets: this.assetMeta.size,
     });
   }
 
+  /**
+   * Load and cache the perp universe (size decimals, max leverage, margin mode)
+   */
+  async loadMeta(): Promise<void> {
+    try {
+      const meta = await this.infoClient.meta();
+
+      if (!meta || !Array.isArray(meta.universe)) {
+        throw new NetworkError('Invalid meta response', { meta });
+      }
+
+      this.assetMeta.clear();
+      // An asset's index in the universe is its ID in exchange actions
+      meta.universe.forEach((asset, index) => {
+        this.assetMeta.set(asset.name, {
+          name: asset.name,
+          index,
+          szDecimals: asset.szDecimals,
+          maxLeverage: asset.maxLeverage,
+          onlyIsolated: asset.onlyIsolated ?? false,
+        });
+      });
+
+      logger.debug('Asset metadata loaded', { assets: this.assetMeta.size });
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to load asset metadata', formattedError);
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
+        throw error;
+      }
+
+      throw new NetworkError('Failed to fetch asset metadata', {
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Get cached metadata for a coin
+   * Reloads the universe once for coins listed after startup. Coins still missing
+   * are remembered for a while, so repeated lookups don't reload every time
+   */
+  async getAssetMeta(coin: string): Promise<AssetMeta> {
+    const marketType = getMarketType(coin);
+    if (marketType !== 'perp') {
+      throw new ValidationError(`${marketType} markets are not supported`, { coin });
+    }
+
+    const unknownSince = this.unknownAssets.get(coin);
+    const recentlyUnknown =
+      unknownSince !== undefined && Date.now() - unknownSince < UNKNOWN_ASSET_TTL_MS;
+    if (!this.assetMeta.has(coin) && !recentlyUnknown) {
+      await this.loadMeta();
+      if (!this.assetMeta.has(coin)) {
+        this.unknownAssets.set(coin, Date.now());
+      }
+    }
+
+    const meta = this.assetMeta.get(coin);
+    if (!meta) {
+      throw new ValidationError(`Unknown asset ${coin}`, { coin });
+    }
+    this.unknownAssets.delete(coin);
+    return meta;
+  }
+
+  /**
+   * Get 24h volume, open interest and mark price for every perp
+   */
+  async getAssetContexts(): Promise<Map<string, AssetContext>> {
+    try {
+      const result = await this.infoClient.metaAndAssetCtxs();
+      const [meta, contexts] = Array.isArray(result) ? result : [undefined, undefined];
+
+      if (!meta || !Array.isArray(meta.universe) || !Array.isArray(contexts)) {
+        throw new NetworkError('Invalid metaAndAssetCtxs response', { result });
+      }
+
+      const assetContexts = new Map<string, AssetContext>();
+      meta.universe.forEach((asset, index) => {
+        const context = contexts[index];
+        if (!context) return;
+
+        const markPx = parseFloat(context.markPx);
+        assetContexts.set(asset.name, {
+          coin: asset.name,
+          markPx,
+          dayNtlVlm: parseFloat(context.dayNtlVlm),
+          // Open interest is reported in coins
+          openInterestUsd: parseFloat(context.openInterest) * markPx,
+        });
+      });
+
+      return assetContexts;
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to get asset contexts', formattedError);
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
+        throw error;
+      }
+
+      throw new NetworkError('Failed to fetch asset contexts', {
+        originalError: formattedError.message,
+      });
+    }
+  }
+
   /**
    * Get account equity information
    */
   async getAccountEquity(address: string): Promise<AccountEquity> {
+    return (await this.getUserState(address)).equity;
+  }
+
+  /**
+   * Get open positions for an address
+   */
+  async getPositions(address: string): Promise<Position[]> {
+    return (await this.getUserState(address)).positions;
+  }
+
+  /**
+   * Get equity and open positions from one clearinghouseState request
+   */
+  async getUserState(address: string): Promise<UserState> {
     try {
-      if (!this.infoClient) {
-        throw new SDKError('Info client not initialized', { address });
-      }
+      const userState = await this.infoClient.clearinghouseState(address);
 
-      const userState = await this.infoClient.userState(address);
-      
       if (!userState || !userState.marginSummary) {
         throw new AccountError('Invalid account state response', { address });
       }
 
-      return {
+      const equity: AccountEquity = {
         accountValue: userState.marginSummary.accountValue || '0',
         totalMarginUsed: userState.marginSummary.totalMarginUsed || '0',
         totalNtlPos: userState.marginSummary.totalNtlPos || '0',
         totalRawUsd: userState.marginSummary.totalRawUsd || '0',
-        crossMaintenanceMarginUsed:
-          userState.marginSummary.crossMaintenanceMarginUsed || '0',
-        crossMarginSummary: userState.marginSummary.crossMarginSummary || {},
+        crossMaintenanceMarginUsed: userState.crossMaintenanceMarginUsed || '0',
+        crossMarginSummary: { ...userState.crossMarginSummary },
       };
+
+      const positions = (userState.assetPositions || [])
+        .map((pos): Position | null => {
+          if (!pos.position) {
+            logger.warn('Invalid position data', { pos });
+            return null;
+          }
+          return {
+            coin: pos.position.coin,
+            szi: pos.position.szi,
+            entryPx: pos.position.entryPx,
+            positionValue: pos.position.positionValue,
+            leverage: pos.position.leverage,
+            // Null when the position cannot be liquidated
+            liquidationPx: pos.position.liquidationPx ?? '',
+            marginUsed: pos.position.marginUsed,
+            returnOnEquity: pos.position.returnOnEquity,
+            unrealizedPnl: pos.position.unrealizedPnl,
+          };
+        })
+        .filter((pos): pos is Position => pos !== null);
+
+      return { equity, positions };
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
-      logger.error('Failed to get account equity', {
+      logger.error('Failed to get account state', {
         address,
         ...formattedError,
       });
       
-      if (error instanceof AccountError || error instanceof SDKError) {
+      if (
+        error instanceof AccountError ||
+        error instanceof NetworkError ||
+        error instanceof RateLimitError
+      ) {
         throw error;
       }
       
-      throw new NetworkError('Failed to fetch account equity', {
+      throw new NetworkError('Failed to fetch account state', {
         address,
         originalError: formattedError.message,
       });
@@ -151,138 +288,98 @@ export class HyperliquidClientWrapper {
   }
 
   /**
-   * Get open positions for an address
+   * Get mid prices for all coins
    */
-  async getPositions(address: string): Promise<Position[]> {
+  async getAllMids(): Promise<Record<string, string>> {
     try {
-      if (!this.infoClient) {
-        throw new SDKError('Info client not initialized', { address });
-      }
+      const mids = await this.infoClient.allMids();
 
-      const userState = await this.infoClient.userState(address);
-      
-      if (!userState) {
-        throw new AccountError('Invalid user state response', { address });
+      if (!mids || typeof mids !== 'object') {
+        throw new NetworkError('Invalid allMids response', { mids });
       }
 
-      return (userState.assetPositions || []).map((pos: { position?: Position }): Position | null => {
-        if (!pos.position) {
-          logger.warn('Invalid position data', { pos });
-          return null;
-        }
-        return {
-          coin: pos.position.coin,
-          szi: pos.position.szi,
-          entryPx: pos.position.entryPx,
-          leverage: pos.position.leverage,
-          liquidationPx: pos.position.liquidationPx,
-          marginUsed: pos.position.marginUsed,
-          returnOnEquity: pos.position.returnOnEquity,
-          unrealizedPnl: pos.position.unrealizedPnl,
-        };
-      }).filter((pos): pos is Position => pos !== null);
+      return mids;
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
-      logger.error('Failed to get positions', {
-        address,
-        ...formattedError,
-      });
-      
-      if (error instanceof AccountError || error instanceof SDKError) {
+      logger.error('Failed to get mid prices', formattedError);
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
         throw error;
       }
-      
-      throw new NetworkError('Failed to fetch positions', {
-        address,
+
+      throw new NetworkError('Failed to fetch mid prices', {
         originalError: formattedError.message,
       });
     }
   }
 
   /**
-   * Place an order
-   * Returns order ID or throws error
+   * Get the best bid and ask for a coin from its l2Book
    */
-  async placeOrder(params: {
-    coin: string;
-    side: 'A' | 'B';
-    sz: string; // Size (no trailing zeros)
-    limitPx?: string; // Limit price (for limit orders)
-    orderType: 'Limit' | 'Market';
-    reduceOnly: boolean;
-    leverage: number;
-  }): Promise<string> {
+  async getTopOfBook(coin: string): Promise<TopOfBook> {
     try {
-      if (!this.exchangeClient) {
-        throw new SDKError('Exchange client not initialized', { params });
+      const book = await this.infoClient.l2Book(coin);
+      const [bids, asks] = book?.levels ?? [[], []];
+
+      if (!bids?.length || !asks?.length) {
+        throw new NetworkError('Empty order book', { coin, book });
       }
 
-      // Validate parameters
-      if (!params.coin || !params.sz || parseFloat(params.sz) <= 0) {
-        throw new TradingError('Invalid order parameters', false, { params });
+      return { bid: bids[0].px, ask: asks[0].px };
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to get order book', {
+        coin,
+        ...formattedError,
+      });
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
+        throw error;
       }
 
-      // Hyperliquid-specific: no trailing zeros in size/price
-      const orderParams = {
-        ...params,
-        sz: params.sz.replace(/\.?0+$/, ''),
-        limitPx: params.limitPx?.replace(/\.?0+$/, ''),
-      };
+      throw new NetworkError('Failed to fetch order book', {
+        coin,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Place an order
+   * Returns the order ID and whether it filled or is resting, or throws error
+   */
+  async placeOrder(params: OrderRequest): Promise<PlacedOrder> {
+    try {
+      const orderParams = this.normalizeOrder(params);
 
       const startTime = Date.now();
-      loggerUtils.logTrade('info', 'Placing order', orderParams);
+      loggerUtils.logTrade('info', 'Placing order', { ...orderParams });
 
       if (config.DRY_RUN) {
-        loggerUtils.logTrade('warn', 'DRY RUN: Order not placed', orderParams);
-        return 'dry-run-order-id';
+        loggerUtils.logTrade('warn', 'DRY RUN: Order not placed', { ...orderParams });
+        return this.dryRunFill(orderParams);
       }
 
-      // Set leverage first if needed
-      if (params.leverage > 1) {
-        try {
-          await this.exchangeClient.updateLeverage({
-            coin: params.coin,
-            leverage: params.leverage,
-            isCross: false, // Isolated margin
-          });
-        } catch (error) {
-          logger.warn('Failed to update leverage, continuing with order', {
-            error: ErrorHandler.formatError(error),
-            params,
-          });
-          // Don't throw - leverage update failure shouldn't block order
-        }
-      }
-
-      // Place order
-      const result = await this.exchangeClient.order(orderParams, {
-        type: params.orderType,
-        tif: 'Gtc', // Good till cancel
-        reduceOnly: params.reduceOnly,
-      });
-
-      if (!result || !result.status) {
-        throw new TradingError('Invalid order response', true, { params, result });
-      }
+      const status = await this.submitOrder(await this.toOrderWire(orderParams));
+      const placed = this.toBatchResult(status);
 
-      const orderId = result.status.resting?.oid || result.status.filled?.oid;
-      
-      if (!orderId) {
-        throw new TradingError('Order placed but no order ID returned', true, {
+      // Exchange rejections (e.g. IOC could not match, ALO would cross) are final
+      if ('error' in placed) {
+        throw new TradingError(`Order rejected: ${placed.error}`, false, {
           params,
-          result,
+          status,
         });
       }
 
       const duration = Date.now() - startTime;
       loggerUtils.logTrade('info', 'Order placed successfully', {
-        orderId,
+        orderId: placed.orderId,
         params: orderParams,
         duration: `${duration}ms`,
       });
       loggerUtils.logPerformance('placeOrder', duration, { coin: params.coin });
 
-      return orderId;
+      return placed;
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
       logger.error('Failed to place order', {
@@ -290,7 +387,11 @@ export class HyperliquidClientWrapper {
         ...formattedError,
       });
       
-      if (error instanceof TradingError || error instanceof SDKError) {
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
         throw error;
       }
       
@@ -302,142 +403,245 @@ export class HyperliquidClientWrapper {
   }
 
   /**
-   * Subscribe to user fills via WebSocket
-   * Returns unsubscribe function
+   * Place several orders as one signed batch
+   * Each order gets its own result, so one rejection doesn't fail the others
    */
-  async subscribeToUserFills(
-    address: string,
-    onFill: (fill: any) => void
-  ): Promise<() => void> {
+  async placeOrders(orders: OrderRequest[]): Promise<BatchOrderResult[]> {
     try {
-      const wsUrl = config.TESTNET
-        ? 'wss://api.hyperliquid-testnet.xyz/ws'
-        : 'wss://api.hyperliquid.xyz/ws';
+      const normalized = orders.map((order) => this.normalizeOrder(order));
 
-      // Initialize WebSocket client
-      // Adjust based on actual SDK WebSocket implementation
-      let WebSocket: any;
-      
-      try {
-        const ws = await import('ws');
-        WebSocket = ws.default || ws;
-      } catch (error) {
-        throw new WebSocketError('Failed to import WebSocket library', {
-          originalError: ErrorHandler.getErrorMessage(error),
-        });
+      const startTime = Date.now();
+      loggerUtils.logTrade('info', 'Placing order batch', { orders: normalized });
+
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Order batch not placed', { orders: normalized });
+        return normalized.map((order) => this.dryRunFill(order));
       }
-      
-      if (WebSocketClient) {
-        this.wsClient = new WebSocketClient(wsUrl);
-      } else {
-        // Fallback to native WebSocket or ws library
-        try {
-          this.wsClient = new WebSocket(wsUrl);
-        } catch (error) {
-          throw new WebSocketError('Failed to create WebSocket connection', {
-            url: wsUrl,
-            originalError: ErrorHandler.getErrorMessage(error),
-          });
-        }
+
+      const wires = await Promise.all(normalized.map((order) => this.toOrderWire(order)));
+      const statuses = await this.exchangeClient.order(wires);
+      if (statuses.length !== wires.length) {
+        throw new TradingError('Invalid order batch response', true, {
+          orders: wires.length,
+          statuses,
+        });
       }
 
-      this.wsClient.on('open', () => {
-        loggerUtils.logWebSocket('open', 'WebSocket connected', { address, url: wsUrl });
-        this.isConnected = true;
+      const results = statuses.map((status) => this.toBatchResult(status));
+      const duration = Date.now() - startTime;
+      loggerUtils.logTrade('info', 'Order batch placed', {
+        results,
+        duration: `${duration}ms`,
+      });
+      loggerUtils.logPerformance('placeOrders', duration, { count: orders.length });
 
-        try {
-          // Subscribe to user fills
-          this.wsClient.send(
-            JSON.stringify({
-              method: 'subscribe',
-              subscription: {
-                type: 'userFills',
-                user: address,
-              },
-            })
-          );
-        } catch (error) {
-          logger.error('Failed to send WebSocket subscription', {
-            error: ErrorHandler.formatError(error),
-            address,
-          });
-        }
+      return results;
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to place order batch', {
+        orders,
+        ...formattedError,
       });
 
-      this.wsClient.on('message', (data: string | { toString(): string }) => {
-        try {
-          const messageStr = typeof data === 'string' ? data : data.toString();
-          const message = JSON.parse(messageStr);
-          
-          if (message.channel === 'userFills' && message.data) {
-            if (Array.isArray(message.data)) {
-              message.data.forEach((fill: any) => {
-                try {
-                  onFill(fill);
-                } catch (error) {
-                  logger.error('Error in fill callback', {
-                    error: ErrorHandler.formatError(error),
-                    fill,
-                  });
-                }
-              });
-            }
-          }
-        } catch (error) {
-          logger.error('Failed to parse WebSocket message', {
-            error: ErrorHandler.formatError(error),
-            data: typeof data === 'string' ? data.substring(0, 200) : 'Buffer',
-          });
-        }
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to place order batch', true, {
+        count: orders.length,
+        originalError: formattedError.message,
       });
+    }
+  }
 
-      this.wsClient.on('error', (error: Error) => {
-        const formattedError = ErrorHandler.formatError(error);
-        logger.error('WebSocket error', {
-          ...formattedError,
-          address,
-          url: wsUrl,
-        });
-        this.isConnected = false;
+  /**
+   * Place a reduce-only take-profit or stop-loss trigger order
+   * Executes as a market order once the mark price reaches triggerPx
+   */
+  async placeTriggerOrder(params: TriggerOrderRequest): Promise<string> {
+    try {
+      const orderParams = {
+        ...params,
+        sz: removeTrailingZeros(params.sz),
+        triggerPx: removeTrailingZeros(params.triggerPx),
+      };
+
+      loggerUtils.logTrade('info', 'Placing trigger order', orderParams);
+
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Trigger order not placed', orderParams);
+        return `dry-run-${params.tpsl}-order-id`;
+      }
+
+      const meta = await this.getAssetMeta(params.coin);
+      const status = await this.submitOrder({
+        a: meta.index,
+        b: params.side === 'B',
+        p: orderParams.triggerPx,
+        s: orderParams.sz,
+        r: true,
+        t: { trigger: { isMarket: true, triggerPx: orderParams.triggerPx, tpsl: params.tpsl } },
       });
 
-      this.wsClient.on('close', (code: number, reason?: { toString(): string } | string) => {
-        logger.warn('WebSocket closed', {
-          code,
-          reason: reason ? (typeof reason === 'string' ? reason : reason.toString()) : 'Unknown',
-          address,
+      if ('error' in status) {
+        throw new TradingError(`Trigger order rejected: ${status.error}`, false, {
+          params,
+          status,
         });
-        this.isConnected = false;
-        this.reconnect(address, onFill);
+      }
+
+      if (!('resting' in status)) {
+        throw new TradingError('Trigger order placed but not resting', true, {
+          params,
+          status,
+        });
+      }
+      const orderId = status.resting.oid;
+
+      loggerUtils.logTrade('info', 'Trigger order placed', { orderId, params: orderParams });
+      return String(orderId);
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to place trigger order', {
+        params,
+        ...formattedError,
       });
 
-      // Return unsubscribe function
-      return () => {
-        try {
-          if (this.wsClient) {
-            this.wsClient.close();
-            this.isConnected = false;
-            loggerUtils.logWebSocket('close', 'WebSocket unsubscribed', { address });
-          }
-        } catch (error) {
-          logger.error('Error unsubscribing WebSocket', {
-            error: ErrorHandler.formatError(error),
-            address,
-          });
-        }
-      };
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to place trigger order', true, {
+        params,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Get recent candles for a coin, oldest first
+   */
+  async getCandles(coin: string, interval: CandleInterval, startTime: number): Promise<Candle[]> {
+    try {
+      const candles = await this.infoClient.candleSnapshot({
+        coin,
+        interval,
+        startTime,
+        endTime: Date.now(),
+      });
+
+      if (!Array.isArray(candles)) {
+        throw new NetworkError('Invalid candleSnapshot response', { coin, candles });
+      }
+
+      return candles.map(
+        (candle): Candle => ({
+          time: candle.t,
+          open: parseFloat(candle.o),
+          high: parseFloat(candle.h),
+          low: parseFloat(candle.l),
+          close: parseFloat(candle.c),
+        })
+      );
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
-      logger.error('Failed to subscribe to user fills', {
+      logger.error('Failed to get candles', { coin, interval, ...formattedError });
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
+        throw error;
+      }
+
+      throw new NetworkError('Failed to fetch candles', {
+        coin,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Set leverage and margin mode for a coin
+   * Must be done before opening, as orders use the coin's current setting
+   */
+  async updateLeverage(coin: string, leverage: number, isCross: boolean): Promise<void> {
+    try {
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Leverage not updated', { coin, leverage, isCross });
+        return;
+      }
+
+      // Rejections surface as a TradingError from the exchange client
+      const meta = await this.getAssetMeta(coin);
+      await this.exchangeClient.updateLeverage(meta.index, isCross, leverage);
+
+      loggerUtils.logTrade('info', 'Leverage updated', { coin, leverage, isCross });
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to update leverage', {
+        coin,
+        leverage,
+        isCross,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to update leverage', true, {
+        coin,
+        leverage,
+        isCross,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Get resting reduce-only take-profit and stop-loss triggers from frontendOpenOrders
+   */
+  async getTriggerOrders(address: string): Promise<TriggerOrder[]> {
+    try {
+      const orders = await this.infoClient.frontendOpenOrders(address);
+
+      if (!Array.isArray(orders)) {
+        throw new NetworkError('Invalid frontendOpenOrders response', { address });
+      }
+
+      return orders
+        .filter((order) => order.isTrigger && order.reduceOnly)
+        .map((order) => ({
+          orderId: String(order.oid),
+          coin: order.coin,
+          side: order.side,
+          sz: order.sz,
+          triggerPx: order.triggerPx,
+          // Stop Market, Stop Limit, Take Profit Market, Take Profit Limit
+          tpsl: order.orderType.startsWith('Take Profit') ? ('tp' as const) : ('sl' as const),
+        }));
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to get trigger orders', {
         address,
         ...formattedError,
       });
-      
-      if (error instanceof WebSocketError) {
+
+      if (error instanceof NetworkError || error instanceof RateLimitError) {
         throw error;
       }
-      
-      throw new WebSocketError('Failed to subscribe to user fills', {
+
+      throw new NetworkError('Failed to fetch open orders', {
         address,
         originalError: formattedError.message,
       });
@@ -445,35 +649,377 @@ export class HyperliquidClientWrapper {
   }
 
   /**
-   * Reconnect WebSocket with exponential backoff
+   * Cancel a resting order
    */
-  private reconnect(address: string, onFill: (fill: any) => void, attempt = 1): void {
-    const maxAttempts = 10;
-    const delay = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
+  async cancelOrder(coin: string, orderId: string): Promise<void> {
+    try {
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Order not cancelled', { coin, orderId });
+        return;
+      }
 
-    if (attempt > maxAttempts) {
-      const error = new WebSocketError('Max reconnection attempts reached', {
-        address,
-        attempts: maxAttempts,
+      const meta = await this.getAssetMeta(coin);
+      const [status] = await this.exchangeClient.cancel([{ a: meta.index, o: Number(orderId) }]);
+
+      // An order that filled before the cancel arrived is not an error
+      if (
+        typeof status === 'object' &&
+        !status.error.toLowerCase().includes('filled')
+      ) {
+        throw new TradingError(`Cancel rejected: ${status.error}`, false, { coin, orderId });
+      }
+
+      loggerUtils.logTrade('info', 'Order cancelled', { coin, orderId });
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to cancel order', {
+        coin,
+        orderId,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to cancel order', true, {
+        coin,
+        orderId,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Cancel a resting order by its client order ID
+   */
+  async cancelOrderByCloid(coin: string, cloid: string): Promise<void> {
+    try {
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Order not cancelled', { coin, cloid });
+        return;
+      }
+
+      const meta = await this.getAssetMeta(coin);
+      const [status] = await this.exchangeClient.cancelByCloid([{ asset: meta.index, cloid }]);
+
+      // An order that filled before the cancel arrived is not an error
+      if (
+        typeof status === 'object' &&
+        !status.error.toLowerCase().includes('filled')
+      ) {
+        throw new TradingError(`Cancel rejected: ${status.error}`, false, { coin, cloid });
+      }
+
+      loggerUtils.logTrade('info', 'Order cancelled', { coin, cloid });
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to cancel order by cloid', {
+        coin,
+        cloid,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to cancel order', true, {
+        coin,
+        cloid,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Replace a resting order's price and size
+   */
+  async modifyOrder(request: ModifyRequest): Promise<void> {
+    try {
+      const order = this.normalizeOrder(request.order);
+      loggerUtils.logTrade('info', 'Modifying order', { orderId: request.orderId, order });
+
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Order not modified', { orderId: request.orderId });
+        return;
+      }
+
+      await this.exchangeClient.modify(
+        this.orderRef(request.orderId),
+        await this.toOrderWire(order)
+      );
+      loggerUtils.logTrade('info', 'Order modified', { orderId: request.orderId });
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to modify order', {
+        request,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to modify order', true, {
+        orderId: request.orderId,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Replace several resting orders as one signed batch
+   */
+  async modifyOrders(requests: ModifyRequest[]): Promise<BatchOrderResult[]> {
+    try {
+      const normalized = requests.map((request) => ({
+        orderId: request.orderId,
+        order: this.normalizeOrder(request.order),
+      }));
+      loggerUtils.logTrade('info', 'Modifying order batch', { requests: normalized });
+
+      if (config.DRY_RUN) {
+        loggerUtils.logTrade('warn', 'DRY RUN: Order batch not modified', { count: requests.length });
+        return normalized.map((request) => this.dryRunFill(request.order));
+      }
+
+      const modifies = await Promise.all(
+        normalized.map(async (request) => ({
+          oid: this.orderRef(request.orderId),
+          order: await this.toOrderWire(request.order),
+        }))
+      );
+      const statuses = await this.exchangeClient.batchModify(modifies);
+      if (statuses.length !== modifies.length) {
+        throw new TradingError('Invalid modify batch response', true, {
+          modifies: modifies.length,
+          statuses,
+        });
+      }
+
+      const results = statuses.map((status) => this.toBatchResult(status));
+      loggerUtils.logTrade('info', 'Order batch modified', { results });
+      return results;
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to modify order batch', {
+        requests,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof TradingError ||
+        error instanceof ValidationError ||
+        error instanceof RateLimitError
+      ) {
+        throw error;
+      }
+
+      throw new TradingError('Failed to modify order batch', true, {
+        count: requests.length,
+        originalError: formattedError.message,
       });
-      logger.error('Max reconnection attempts reached', ErrorHandler.formatError(error));
-      return;
     }
+  }
+
+  /**
+   * Get the status of one of our orders by order ID or client order ID
+   */
+  async getOrderStatus(orderId: string): Promise<OrderStatusInfo> {
+    try {
+      if (config.DRY_RUN) {
+        return { orderId, status: 'filled', origSz: '0', remainingSz: '0' };
+      }
+
+      const result = await this.infoClient.orderStatus(this.wallet.address, this.orderRef(orderId));
+
+      if (!result || result.status !== 'order') {
+        throw new TradingError('Unknown order', false, { orderId, result });
+      }
+
+      return {
+        orderId: String(result.order.order.oid),
+        status: result.order.status,
+        origSz: result.order.order.origSz,
+        remainingSz: result.order.order.sz,
+      };
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to get order status', {
+        orderId,
+        ...formattedError,
+      });
+
+      if (
+        error instanceof NetworkError ||
+        error instanceof RateLimitError ||
+        error instanceof TradingError
+      ) {
+        throw error;
+      }
+
+      throw new NetworkError('Failed to fetch order status', {
+        orderId,
+        originalError: formattedError.message,
+      });
+    }
+  }
+
+  /**
+   * Subscribe to user fills over the shared WebSocket
+   * The historical batch Hyperliquid sends on subscribe (isSnapshot) is passed to
+   * onSnapshot instead of onFill, so it is never treated as new trades. A fresh
+   * snapshot follows every reconnect.
+   * Returns unsubscribe function
+   */
+  async subscribeToUserFills(
+    address: string,
+    onFill: (fill: FillEvent) => void,
+    onSnapshot?: (fills: FillEvent[]) => void
+  ): Promise<() => void> {
+    return this.ws.subscribe({ type: 'userFills', user: address }, (data) => {
+      const fills: FillEvent[] = data.fills || [];
 
-    setTimeout(async () => {
-      logger.info(`Reconnection attempt ${attempt}/${maxAttempts}`, { address });
-      try {
-        await this.subscribeToUserFills(address, onFill);
-      } catch (error) {
-        const formattedError = ErrorHandler.formatError(error);
-        logger.error('Reconnection failed', {
-          attempt,
-          ...formattedError,
+      if (data.isSnapshot) {
+        loggerUtils.logWebSocket('snapshot', 'Received userFills snapshot', {
           address,
+          count: fills.length,
         });
-        this.reconnect(address, onFill, attempt + 1);
+        onSnapshot?.(fills);
+        return;
       }
-    }, delay);
+
+      fills.forEach((fill) => {
+        try {
+          onFill(fill);
+        } catch (error) {
+          logger.error('Error in fill callback', {
+            error: ErrorHandler.formatError(error),
+            fill,
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Subscribe to status changes of our own orders over the shared WebSocket
+   * Returns unsubscribe function
+   */
+  async subscribeToOrderUpdates(onUpdate: (update: OrderUpdate) => void): Promise<() => void> {
+    return this.ws.subscribe({ type: 'orderUpdates', user: this.wallet.address }, (updates) => {
+      for (const { order, status, statusTimestamp } of updates) {
+        try {
+          onUpdate({
+            orderId: String(order.oid),
+            coin: order.coin,
+            side: order.side,
+            status,
+            origSz: order.origSz,
+            remainingSz: order.sz,
+            limitPx: order.limitPx,
+            timestamp: statusTimestamp,
+          });
+        } catch (error) {
+          logger.error('Error in order update callback', {
+            error: ErrorHandler.formatError(error),
+            oid: order.oid,
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate an order and strip trailing zeros from its size and price,
+   * as Hyperliquid requires
+   */
+  private normalizeOrder(params: OrderRequest): OrderRequest {
+    if (!params.coin || !params.sz || parseFloat(params.sz) <= 0) {
+      throw new TradingError('Invalid order parameters', false, { params });
+    }
+
+    return {
+      ...params,
+      sz: removeTrailingZeros(params.sz),
+      limitPx: params.limitPx ? removeTrailingZeros(params.limitPx) : undefined,
+    };
+  }
+
+  /**
+   * Wire form of a normalized order
+   */
+  private async toOrderWire(params: OrderRequest): Promise<OrderWire> {
+    // Hyperliquid has no true market orders; every order carries a limit price
+    if (!params.limitPx) {
+      throw new TradingError('Limit price required', false, { params });
+    }
+
+    const meta = await this.getAssetMeta(params.coin);
+    return {
+      a: meta.index,
+      b: params.side === 'B',
+      p: params.limitPx,
+      s: params.sz,
+      r: params.reduceOnly,
+      t: { limit: { tif: params.tif ?? 'Gtc' } }, // Good till cancel unless IOC/ALO requested
+      c: params.cloid,
+    };
+  }
+
+  private toBatchResult(status: OrderStatus): BatchOrderResult {
+    if ('error' in status) {
+      return { error: status.error };
+    }
+    if ('filled' in status) {
+      return {
+        orderId: String(status.filled.oid),
+        status: 'filled',
+        filledSz: status.filled.totalSz,
+        avgPx: status.filled.avgPx,
+      };
+    }
+    return { orderId: String(status.resting.oid), status: 'resting' };
+  }
+
+  private dryRunFill(order: OrderRequest): PlacedOrder {
+    return {
+      orderId: 'dry-run-order-id',
+      status: 'filled',
+      filledSz: order.sz,
+      avgPx: order.limitPx,
+    };
+  }
+
+  /**
+   * Order reference for the exchange: client order IDs are hex, order IDs numeric
+   */
+  private orderRef(orderId: string): number | string {
+    return orderId.startsWith('0x') ? orderId : Number(orderId);
+  }
+
+  /**
+   * Send a single order and return its status
+   */
+  private async submitOrder(order: OrderWire): Promise<OrderStatus> {
+    const [status] = await this.exchangeClient.order([order]);
+    if (!status) {
+      throw new TradingError('Invalid order response', true, { order });
+    }
+    return status;
   }
 
   /**
@@ -484,9 +1030,9 @@ export class HyperliquidClientWrapper {
   }
 
   /**
-   * Check if WebSocket is connected
+   * Check if the WebSocket is connected and its feed is live
    */
   isWsConnected(): boolean {
-    return this.isConnected;
+    return this.ws.isConnected();
   }
 }
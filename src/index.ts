@@ -34,7 +34,12 @@ async function main(): Promise<void> {
     logger.info('Configuration:', {
       testnet: config.TESTNET,
       dryRun: config.DRY_RUN,
-      targetWallet: config.TARGET_WALLET,
+      leaders: config.LEADERS.map((leader) => ({
+        address: leader.address,
+        weight: leader.weight,
+        sizeMultiplier: leader.sizeMultiplier,
+        blockedAssets: leader.blockedAssets,
+      })),
       sizeMultiplier: config.SIZE_MULTIPLIER,
       maxLeverage: config.MAX_LEVERAGE,
       blockedAssets: config.BLOCKED_ASSETS,
@@ -47,7 +52,7 @@ async function main(): Promise<void> {
 
     // Initialize Hyperliquid client
     const client = new HyperliquidClientWrapper();
-    await client.initialize(); // Initialize SDK clients
+    await client.initialize(); // Load asset metadata
     const ourAddress = client.getAddress();
 
     logger.info('Our wallet address:', ourAddress);
@@ -77,21 +82,22 @@ async function main(): Promise<void> {
     }
 
     // Initialize copy trader
-    const copyTrader = new CopyTrader(client, config.TARGET_WALLET);
+    const copyTrader = new CopyTrader(client, config.LEADERS);
     await copyTrader.start();
 
     // Initialize health checker
     const healthChecker = new HealthChecker(
       client,
       ourAddress,
-      config.TARGET_WALLET
+      config.LEADERS,
+      () => copyTrader.getBlackoutSkippedOpens()
     );
     healthChecker.start(config.HEALTH_CHECK_INTERVAL);
 
     // Graceful shutdown handler
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
-      copyTrader.stop();
+      await copyTrader.stop();
       healthChecker.stop();
       await cleanupTelegramBot();
       process.exit(0);
@@ -100,6 +106,14 @@ async function main(): Promise<void> {
     process.on('SIGINT', () => shutdown('SIGINT'));
     process.on('SIGTERM', () => shutdown('SIGTERM'));
 
+    // Resuming after a risk supervisor trip is always an explicit operator action
+    process.on('SIGUSR2', () => {
+      logger.info('Received SIGUSR2, resuming trading');
+      copyTrader.resumeTrading().catch((error) => {
+        logger.error('Failed to resume trading', { error });
+      });
+    });
+
     // Handle uncaught errors
     process.on('uncaughtException', async (error) => {
       logger.error('Uncaught exception', { error });
@@ -0,0 +1,144 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { capLeverage } from './utils/risk.js';
+import { ErrorHandler, retryWithBackoff } from './utils/errors.js';
+import type { LeaderConfig } from './types.js';
+
+/**
+ * Leverage setting applied to one coin
+ */
+interface LeverageSetting {
+  leverage: number;
+  isCross: boolean;
+}
+
+/**
+ * Leverage and margin mode management
+ * Mirrors the leaders' per-coin leverage and cross/isolated setting, and caches
+ * what has been set so updateLeverage is only called when something changes
+ */
+export class LeverageManager {
+  private client: ExchangeAdapter;
+  private leaders: LeaderConfig[];
+  private ourAddress: string;
+  private current: Map<string, LeverageSetting> = new Map();
+  private intervalId?: ReturnType<typeof setInterval>;
+
+  constructor(client: ExchangeAdapter, leaders: LeaderConfig[]) {
+    this.client = client;
+    this.leaders = leaders;
+    this.ourAddress = client.getAddress();
+  }
+
+  /**
+   * Start periodic sync with the leaders' settings
+   * Catches leverage changes the leaders make without trading
+   */
+  start(intervalSeconds: number): void {
+    logger.info(`Starting leverage sync every ${intervalSeconds} seconds`, {
+      marginMode: config.MARGIN_MODE,
+    });
+
+    void this.sync();
+    this.intervalId = setInterval(() => {
+      void this.sync();
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop periodic sync
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info('Leverage sync stopped');
+    }
+  }
+
+  /**
+   * Make sure a coin is set to the given leverage and margin mode
+   * Applies MAX_LEVERAGE, the asset's max leverage, per-coin overrides, isolated-only
+   * assets and MARGIN_MODE
+   */
+  async ensure(coin: string, leverage: number, isCross: boolean): Promise<LeverageSetting> {
+    const meta = await this.client.getAssetMeta(coin);
+    const target: LeverageSetting = {
+      leverage: Math.max(1, Math.floor(capLeverage(leverage, meta.maxLeverage, coin))),
+      isCross: meta.onlyIsolated ? false : this.resolveMarginMode(isCross),
+    };
+
+    const existing = this.current.get(coin);
+    if (existing && existing.leverage === target.leverage && existing.isCross === target.isCross) {
+      return target;
+    }
+
+    await retryWithBackoff(
+      () => this.client.updateLeverage(coin, target.leverage, target.isCross),
+      { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 }
+    );
+    this.current.set(coin, target);
+
+    logger.info('Leverage setting mirrored', {
+      coin,
+      requested: { leverage, isCross },
+      applied: target,
+      previous: existing,
+    });
+
+    return target;
+  }
+
+  /**
+   * Mirror the leaders' settings for every coin we hold
+   */
+  async sync(): Promise<void> {
+    try {
+      const [ourPositions, leaderPositions] = await Promise.all([
+        this.client.getPositions(this.ourAddress),
+        Promise.all(this.leaders.map((leader) => this.client.getPositions(leader.address))),
+      ]);
+
+      // Our actual settings are the cache baseline, so nothing is re-sent needlessly
+      for (const position of ourPositions) {
+        this.current.set(position.coin, {
+          leverage: Number(position.leverage.value),
+          isCross: position.leverage.type === 'cross',
+        });
+      }
+
+      for (const position of ourPositions) {
+        // Settings come from the first leader holding the coin
+        const leaderPosition = leaderPositions
+          .flat()
+          .find((p) => p.coin === position.coin);
+        if (!leaderPosition?.leverage) continue;
+
+        try {
+          await this.ensure(
+            position.coin,
+            Number(leaderPosition.leverage.value),
+            leaderPosition.leverage.type === 'cross'
+          );
+        } catch (error) {
+          logger.warn('Failed to mirror leverage for coin', {
+            coin: position.coin,
+            ...ErrorHandler.formatError(error),
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Leverage sync failed', ErrorHandler.formatError(error));
+    }
+  }
+
+  /**
+   * Apply MARGIN_MODE to the leader's margin mode
+   */
+  private resolveMarginMode(leaderIsCross: boolean): boolean {
+    if (config.MARGIN_MODE === 'cross') return true;
+    if (config.MARGIN_MODE === 'isolated') return false;
+    return leaderIsCross;
+  }
+}
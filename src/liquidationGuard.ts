@@ -0,0 +1,233 @@
+import { config } from './config.js';
+import { logger, loggerUtils } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { TradeExecutor } from './tradeExecutor.js';
+import {
+  estimateLiquidationPrice,
+  liquidationDistancePercent,
+  maintenanceMarginRate,
+  type LiquidationEstimate,
+} from './utils/liquidation.js';
+import { removeTrailingZeros, roundSize } from './utils/risk.js';
+import { ErrorHandler } from './utils/errors.js';
+import { sendWarningNotification } from './notifications/telegram.js';
+import type {
+  AccountEquity,
+  AssetMeta,
+  CopyTradeParams,
+  Position,
+  UserState,
+} from './types.js';
+
+/**
+ * Binary search steps when looking for the largest safe order size
+ */
+const SEARCH_STEPS = 20;
+
+/**
+ * Pre-trade liquidation check
+ * Predicts our liquidation price and margin ratio after an order, using our own
+ * margin state rather than the leader's
+ */
+export class LiquidationGuard {
+  /**
+   * Largest size of an order that keeps us within the liquidation buffer
+   * and margin ratio limit, rounded down to the asset's decimals
+   * `account` is our state the order was decided on. `pendingSize` is signed
+   * size that orders placed ahead of this one add to the coin
+   */
+  maxSafeSize(
+    params: CopyTradeParams,
+    price: string,
+    meta: AssetMeta,
+    account: UserState,
+    pendingSize = 0
+  ): string {
+    const { positions, equity: equityData } = account;
+
+    const requested = parseFloat(params.size);
+    const estimate = (size: number) =>
+      this.estimate(params, size, parseFloat(price), meta, positions, equityData, pendingSize);
+
+    const full = estimate(requested);
+    if (this.isSafe(full)) {
+      return params.size;
+    }
+
+    let low = 0;
+    let high = requested;
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+      const mid = (low + high) / 2;
+      if (this.isSafe(estimate(mid))) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const safeSize = roundSize(low, meta.szDecimals, 'down');
+    logger.warn('Order exceeds liquidation limits at full size', {
+      coin: params.coin,
+      requestedSize: params.size,
+      safeSize,
+      predicted: full,
+      bufferPercent: config.LIQUIDATION_BUFFER_PERCENT,
+      maxMarginRatioPercent: config.MAX_MARGIN_RATIO_PERCENT,
+    });
+    return safeSize;
+  }
+
+  /**
+   * Predict the margin state after adding `size` of an order
+   */
+  private estimate(
+    params: CopyTradeParams,
+    size: number,
+    markPx: number,
+    meta: AssetMeta,
+    positions: Position[],
+    equityData: AccountEquity,
+    pendingSize: number
+  ): LiquidationEstimate {
+    const accountValue = parseFloat(equityData.accountValue);
+    const crossMaintenance = parseFloat(equityData.crossMaintenanceMarginUsed) || 0;
+    const rate = maintenanceMarginRate(meta.maxLeverage);
+
+    const current = positions.find((p) => p.coin === params.coin);
+    const currentSize = parseFloat(current?.szi ?? '0');
+    const newSize = currentSize + pendingSize + (params.side === 'B' ? 1 : -1) * size;
+
+    const currentMaintenance =
+      current?.leverage.type === 'cross' ? Math.abs(currentSize) * markPx * rate : 0;
+    const newMaintenance = Math.abs(newSize) * markPx * rate;
+    const totalMaintenance = crossMaintenance - currentMaintenance + newMaintenance;
+
+    let marginAvailable: number;
+    if (params.isCross) {
+      marginAvailable = accountValue - totalMaintenance;
+    } else {
+      // Isolated margin grows by the added notional at the order's leverage
+      const isolatedMargin =
+        (current?.leverage.type === 'isolated' ? parseFloat(current.marginUsed) || 0 : 0) +
+        (size * markPx) / params.leverage;
+      marginAvailable = isolatedMargin - newMaintenance;
+    }
+
+    const liquidationPx = estimateLiquidationPrice(newSize, markPx, marginAvailable, rate);
+    return {
+      liquidationPx,
+      distancePercent: liquidationDistancePercent(newSize, markPx, liquidationPx),
+      marginRatio: accountValue > 0 ? totalMaintenance / accountValue : Infinity,
+    };
+  }
+
+  /**
+   * Whether a predicted state is within limits
+   */
+  private isSafe(estimate: LiquidationEstimate): boolean {
+    return (
+      estimate.distancePercent >= config.LIQUIDATION_BUFFER_PERCENT &&
+      estimate.marginRatio * 100 <= config.MAX_MARGIN_RATIO_PERCENT
+    );
+  }
+}
+
+/**
+ * Liquidation watcher
+ * Reduces positions whose mark price has moved close to their liquidation price
+ */
+export class LiquidationWatcher {
+  private client: ExchangeAdapter;
+  private executor: TradeExecutor;
+  private ourAddress: string;
+  private intervalId?: ReturnType<typeof setInterval>;
+  private checking = false;
+
+  constructor(client: ExchangeAdapter, executor: TradeExecutor) {
+    this.client = client;
+    this.executor = executor;
+    this.ourAddress = client.getAddress();
+  }
+
+  /**
+   * Start periodic liquidation checks
+   */
+  start(intervalSeconds: number): void {
+    logger.info(`Starting liquidation watcher every ${intervalSeconds} seconds`, {
+      watchPercent: config.LIQUIDATION_WATCH_PERCENT,
+      reducePercent: config.LIQUIDATION_REDUCE_PERCENT,
+    });
+
+    this.intervalId = setInterval(() => {
+      void this.check();
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info('Liquidation watcher stopped');
+    }
+  }
+
+  /**
+   * Reduce every position within LIQUIDATION_WATCH_PERCENT of liquidation
+   */
+  async check(): Promise<void> {
+    // A slow pass must not overlap the next one and reduce twice
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const [positions, mids] = await Promise.all([
+        this.client.getPositions(this.ourAddress),
+        this.client.getAllMids(),
+      ]);
+
+      for (const position of positions) {
+        const size = parseFloat(position.szi);
+        const liquidationPx = parseFloat(position.liquidationPx);
+        const mid = mids[position.coin];
+        if (size === 0 || isNaN(liquidationPx) || !mid) continue;
+
+        const distance = liquidationDistancePercent(size, parseFloat(mid), liquidationPx);
+        if (distance >= config.LIQUIDATION_WATCH_PERCENT) continue;
+
+        const reduceSize = removeTrailingZeros(
+          ((Math.abs(size) * config.LIQUIDATION_REDUCE_PERCENT) / 100).toFixed(8)
+        );
+        logger.warn('Position near liquidation, reducing', {
+          coin: position.coin,
+          szi: position.szi,
+          mid,
+          liquidationPx: position.liquidationPx,
+          distancePercent: distance,
+          reduceSize,
+        });
+
+        const result = await this.executor.reducePosition(position, reduceSize, mid);
+
+        loggerUtils.logTrade(result.success ? 'info' : 'error', 'Liquidation guard reduce', {
+          coin: position.coin,
+          size: reduceSize,
+          orderId: result.orderId,
+          error: result.error,
+        });
+        await sendWarningNotification(`${position.coin} position near liquidation`, {
+          mid,
+          liquidationPx: position.liquidationPx,
+          distance: `${distance.toFixed(2)}%`,
+          reduced: result.success ? reduceSize : `failed: ${result.error}`,
+        });
+      }
+    } catch (error) {
+      logger.error('Liquidation check failed', ErrorHandler.formatError(error));
+    } finally {
+      this.checking = false;
+    }
+  }
+}
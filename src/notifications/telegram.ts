@@ -56,7 +56,7 @@ export async function sendStartupNotification(): Promise<void> {
 *Configuration:*
 • Testnet: ${config.TESTNET ? 'Yes' : 'No'}
 • Dry Run: ${config.DRY_RUN ? 'Yes' : 'No'}
-• Target Wallet: \`${config.TARGET_WALLET.substring(0, 10)}...\`
+• Leaders: ${config.LEADERS.map((leader) => `\`${leader.address.substring(0, 10)}...\` (${(leader.weight * 100).toFixed(0)}%)`).join(', ')}
 • Size Multiplier: ${config.SIZE_MULTIPLIER}x
 • Max Leverage: ${config.MAX_LEVERAGE}x
 • Blocked Assets: ${config.BLOCKED_ASSETS.length > 0 ? config.BLOCKED_ASSETS.join(', ') : 'None'}
@@ -113,10 +113,12 @@ export async function sendTradeNotification(
 
 *Our Trade:*
 ${sideEmoji} Side: *${sideText}*
-• Size: \`${params.size}\`
-• Leverage: \`${params.leverage}x\`
+• Size: \`${result.params.size}\`${result.adjustments?.length ? ` (requested \`${result.requestedSize}\`: ${result.adjustments.join(', ')})` : ''}
+• Leverage: \`${params.leverage}x\` (${params.isCross ? 'cross' : 'isolated'})
 • Reduce Only: ${params.reduceOnly ? 'Yes' : 'No'}
-• Order Type: ${params.orderType}
+• Order Type: ${params.orderType}${result.strategy ? ` (${result.strategy})` : ''}
+${result.requestedPx ? `• Requested Price: \`${result.requestedPx}\`` : ''}
+${result.achievedPx ? `• Achieved Price: \`${result.achievedPx}\`${result.slippageBps !== undefined ? ` (${result.slippageBps} bps)` : ''}` : ''}
 
 *Status:* ${status}
 ${result.orderId ? `• Order ID: \`${result.orderId}\`` : ''}
@@ -186,9 +188,13 @@ export async function sendHealthCheckNotification(
 • Target Equity: \`$${parseFloat(healthCheck.targetEquity).toFixed(2)}\`
 • Our Positions: ${healthCheck.ourPositions.length}
 • Target Positions: ${healthCheck.targetPositions.length}
-
 `;
 
+    if (healthCheck.blackoutSkippedOpens) {
+      message += `• Opens Skipped (blackout): ${healthCheck.blackoutSkippedOpens}\n`;
+    }
+    message += '\n';
+
     if (driftCount > 0) {
       message += `*⚠️ Position Drift Detected:*\n`;
       for (const [coin, drift] of Object.entries(healthCheck.drift)) {
@@ -0,0 +1,570 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { removeTrailingZeros, roundPrice, roundSize } from './utils/risk.js';
+import { ErrorHandler, TradingError } from './utils/errors.js';
+import { deriveCloid } from './utils/cloid.js';
+import type {
+  FillEvent,
+  OrderOutcome,
+  OrderRequest,
+  OrderState,
+  OrderUpdate,
+  PlacedOrder,
+} from './types.js';
+
+/**
+ * Interval between checks for stale and unconfirmed orders
+ */
+const SWEEP_INTERVAL_MS = 1000;
+
+/**
+ * Interval between order book checks for a chased post-only order
+ */
+const CHASE_INTERVAL_MS = 2000;
+
+/**
+ * How long to wait for the feed to confirm a cancel before asking over REST
+ */
+const CANCEL_CONFIRM_MS = 5000;
+
+/**
+ * How long fills and updates for untracked orders are kept
+ * The feed can report an order before placeOrder returns its ID
+ */
+const UNCLAIMED_TTL_MS = 60_000;
+
+/**
+ * Sizes below this count as zero
+ */
+const SIZE_EPSILON = 1e-9;
+
+/**
+ * One exchange order placed for a managed order
+ */
+interface OrderLeg {
+  orderId: string;
+  origSz: number;
+  filledSz: number; // From fills
+  filledNotional: number;
+  reportedSz: number; // Filled size according to the order's status
+  fallbackPx: number; // Price for fills known only from status: the limit, or the reported average
+  fillIds: Set<string>;
+}
+
+/**
+ * A resting order and the re-priced orders that replaced it
+ */
+interface ManagedOrder {
+  request: OrderRequest;
+  size: number; // Total size wanted across legs
+  state: OrderState;
+  legs: OrderLeg[]; // The last leg is the live order
+  staleAfterMs: number;
+  restingSince: number;
+  chaseUntil?: number; // Chased orders follow the best bid or ask until then, then are cancelled
+  checkedAt: number;
+  cancelRequestedAt: number;
+  reprices: number;
+  busy: boolean;
+  replacing: boolean;
+  resolve: (outcome: OrderOutcome) => void;
+}
+
+/**
+ * Fills and updates received for an order before it was tracked
+ */
+interface Unclaimed {
+  receivedAt: number;
+  fills: FillEvent[];
+  updates: OrderUpdate[];
+}
+
+/**
+ * Order management
+ * Follows our resting orders through the orderUpdates and userFills feeds,
+ * cancels or re-prices the ones left on the book too long and reports what
+ * actually filled
+ */
+export class OrderManager {
+  private client: ExchangeAdapter;
+  private ourAddress: string;
+  // Every leg's order ID points at its managed order
+  private orders: Map<string, ManagedOrder> = new Map();
+  private unclaimed: Map<string, Unclaimed> = new Map();
+  private unsubscribeFns: Array<() => void> = [];
+  private intervalId?: ReturnType<typeof setInterval>;
+
+  constructor(client: ExchangeAdapter) {
+    this.client = client;
+    this.ourAddress = client.getAddress();
+  }
+
+  /**
+   * Subscribe to our own order updates and fills and start the stale order sweep
+   */
+  async start(): Promise<void> {
+    this.unsubscribeFns.push(
+      await this.client.subscribeToOrderUpdates((update) => this.onUpdate(update)),
+      await this.client.subscribeToUserFills(this.ourAddress, (fill) => this.onFill(fill))
+    );
+
+    this.intervalId = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+
+    logger.info('Order manager started', {
+      staleOrderSeconds: config.STALE_ORDER_SECONDS,
+      staleOrderAction: config.STALE_ORDER_ACTION,
+      maxReprices: config.MAX_ORDER_REPRICES,
+    });
+  }
+
+  /**
+   * Stop following orders
+   */
+  stop(): void {
+    for (const unsubscribe of this.unsubscribeFns) {
+      unsubscribe();
+    }
+    this.unsubscribeFns = [];
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    const resting = new Set(this.orders.values()).size;
+    if (resting > 0) {
+      logger.warn('Order manager stopped with orders still on the book', { resting });
+    }
+  }
+
+  /**
+   * Follow a resting order until it leaves the book
+   * Once it has rested for staleAfterMs it is cancelled, or re-priced at the mid
+   * when STALE_ORDER_ACTION is reprice. Resolves with the size and average price
+   * filled across every re-priced order
+   */
+  manage(
+    request: OrderRequest,
+    placed: PlacedOrder,
+    staleAfterMs: number = config.STALE_ORDER_SECONDS * 1000
+  ): Promise<OrderOutcome> {
+    return this.follow(request, placed, staleAfterMs);
+  }
+
+  /**
+   * Follow a resting post-only order, re-pricing it to the best bid (buy) or ask
+   * (sell) whenever the book moves away from it, and cancel it once timeoutMs has
+   * passed since it was placed, whatever STALE_ORDER_ACTION is
+   */
+  chase(request: OrderRequest, placed: PlacedOrder, timeoutMs: number): Promise<OrderOutcome> {
+    return this.follow(request, placed, timeoutMs, Date.now() + timeoutMs);
+  }
+
+  private follow(
+    request: OrderRequest,
+    placed: PlacedOrder,
+    staleAfterMs: number,
+    chaseUntil?: number
+  ): Promise<OrderOutcome> {
+    return new Promise((resolve) => {
+      const order: ManagedOrder = {
+        request,
+        size: parseFloat(request.sz),
+        state: 'open',
+        legs: [],
+        staleAfterMs,
+        restingSince: Date.now(),
+        chaseUntil,
+        checkedAt: Date.now(),
+        cancelRequestedAt: 0,
+        reprices: 0,
+        busy: false,
+        replacing: false,
+        resolve,
+      };
+
+      logger.debug('Tracking resting order', {
+        coin: request.coin,
+        orderId: placed.orderId,
+        size: request.sz,
+        limitPx: request.limitPx,
+        staleAfterMs,
+        chasing: chaseUntil !== undefined,
+      });
+
+      this.addLeg(order, placed.orderId, request);
+    });
+  }
+
+  private onFill(fill: FillEvent): void {
+    const orderId = String(fill.oid);
+    const order = this.orders.get(orderId);
+    if (!order) {
+      this.stash(orderId).fills.push(fill);
+      return;
+    }
+    this.applyFill(order, orderId, fill);
+  }
+
+  private onUpdate(update: OrderUpdate): void {
+    const order = this.orders.get(update.orderId);
+    if (!order) {
+      this.stash(update.orderId).updates.push(update);
+      return;
+    }
+    this.applyStatus(order, update.orderId, update.status, update.remainingSz);
+  }
+
+  private stash(orderId: string): Unclaimed {
+    let entry = this.unclaimed.get(orderId);
+    if (!entry) {
+      entry = { receivedAt: Date.now(), fills: [], updates: [] };
+      this.unclaimed.set(orderId, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Start following a new exchange order, replaying anything the feeds sent first
+   */
+  private addLeg(order: ManagedOrder, orderId: string, request: OrderRequest): OrderLeg {
+    const leg: OrderLeg = {
+      orderId,
+      origSz: parseFloat(request.sz),
+      filledSz: 0,
+      filledNotional: 0,
+      reportedSz: 0,
+      fallbackPx: parseFloat(request.limitPx ?? '0'),
+      fillIds: new Set(),
+    };
+    order.legs.push(leg);
+    this.orders.set(orderId, order);
+
+    const early = this.unclaimed.get(orderId);
+    if (early) {
+      this.unclaimed.delete(orderId);
+      for (const fill of early.fills) {
+        this.applyFill(order, orderId, fill);
+      }
+      for (const update of early.updates) {
+        this.applyStatus(order, orderId, update.status, update.remainingSz);
+      }
+    }
+
+    return leg;
+  }
+
+  private applyFill(order: ManagedOrder, orderId: string, fill: FillEvent): void {
+    const leg = order.legs.find((l) => l.orderId === orderId);
+    const fillId = fill.tid !== undefined ? String(fill.tid) : fill.hash;
+    if (!leg || leg.fillIds.has(fillId)) return;
+
+    leg.fillIds.add(fillId);
+    const sz = parseFloat(fill.sz);
+    leg.filledSz += sz;
+    leg.filledNotional += sz * parseFloat(fill.px);
+
+    this.advance(order);
+  }
+
+  /**
+   * Apply an order status from the feed or from a REST check
+   */
+  private applyStatus(
+    order: ManagedOrder,
+    orderId: string,
+    status: string,
+    remainingSz: string
+  ): void {
+    const leg = order.legs.find((l) => l.orderId === orderId);
+    if (!leg) return;
+
+    const remaining = status === 'filled' ? 0 : parseFloat(remainingSz);
+    leg.reportedSz = Math.max(leg.reportedSz, leg.origSz - remaining);
+
+    if (isTerminal(order.state)) return;
+
+    // Replaced legs and a leg being replaced only contribute their fills
+    const live = leg === order.legs[order.legs.length - 1];
+    if (status === 'open' || status === 'triggered' || !live || order.replacing) {
+      this.advance(order);
+      return;
+    }
+
+    const filled = this.filledSz(order);
+    if (status === 'filled' || filled >= order.size - SIZE_EPSILON) {
+      this.finish(order, 'filled');
+    } else if (status === 'rejected' && filled <= 0) {
+      this.finish(order, 'rejected');
+    } else {
+      // canceled, marginCanceled, reduceOnlyCanceled, ...
+      this.finish(order, 'canceled');
+    }
+  }
+
+  /**
+   * Move to filled or partially filled as fills accumulate
+   */
+  private advance(order: ManagedOrder): void {
+    if (isTerminal(order.state)) return;
+
+    const filled = this.filledSz(order);
+    if (filled >= order.size - SIZE_EPSILON) {
+      this.finish(order, 'filled');
+    } else if (filled > 0 && order.state === 'open') {
+      order.state = 'partiallyFilled';
+    }
+  }
+
+  private finish(order: ManagedOrder, state: OrderOutcome['state']): void {
+    order.state = state;
+    for (const leg of order.legs) {
+      this.orders.delete(leg.orderId);
+    }
+
+    const filled = this.filledSz(order);
+    const notional = order.legs.reduce(
+      (sum, leg) =>
+        sum + leg.filledNotional + Math.max(0, leg.reportedSz - leg.filledSz) * leg.fallbackPx,
+      0
+    );
+
+    const outcome: OrderOutcome = {
+      orderId: order.legs[order.legs.length - 1].orderId,
+      state,
+      filledSz: format(filled),
+      avgPx: filled > 0 ? format(notional / filled) : undefined,
+    };
+
+    logger.info('Managed order finished', {
+      coin: order.request.coin,
+      ...outcome,
+      size: order.request.sz,
+      reprices: order.reprices,
+    });
+    order.resolve(outcome);
+  }
+
+  private filledSz(order: ManagedOrder): number {
+    return order.legs.reduce((sum, leg) => sum + Math.max(leg.filledSz, leg.reportedSz), 0);
+  }
+
+  /**
+   * Handle stale orders, confirm cancels the feed never reported and drop
+   * unclaimed fills and updates that are too old to matter
+   */
+  private sweep(): void {
+    const now = Date.now();
+
+    for (const [orderId, entry] of this.unclaimed) {
+      if (now - entry.receivedAt > UNCLAIMED_TTL_MS) {
+        this.unclaimed.delete(orderId);
+      }
+    }
+
+    for (const order of new Set(this.orders.values())) {
+      if (order.busy || isTerminal(order.state)) continue;
+
+      if (order.state === 'canceling') {
+        if (now - order.cancelRequestedAt > CANCEL_CONFIRM_MS) {
+          void this.run(order, () => this.confirmCancel(order));
+        }
+      } else if (order.chaseUntil !== undefined) {
+        if (now >= order.chaseUntil) {
+          void this.run(order, () => this.cancel(order));
+        } else if (now - order.checkedAt >= CHASE_INTERVAL_MS) {
+          void this.run(order, () => this.chaseBook(order));
+        }
+      } else if (now - order.restingSince > order.staleAfterMs) {
+        const reprice =
+          config.STALE_ORDER_ACTION === 'reprice' && order.reprices < config.MAX_ORDER_REPRICES;
+        void this.run(order, () => (reprice ? this.reprice(order) : this.cancel(order)));
+      }
+    }
+  }
+
+  /**
+   * Run one action on an order at a time
+   */
+  private async run(order: ManagedOrder, action: () => Promise<void>): Promise<void> {
+    order.busy = true;
+    try {
+      await action();
+    } catch (error) {
+      logger.error('Failed to manage resting order', {
+        coin: order.request.coin,
+        orderId: order.legs[order.legs.length - 1].orderId,
+        state: order.state,
+        ...ErrorHandler.formatError(error),
+      });
+    } finally {
+      order.busy = false;
+    }
+  }
+
+  /**
+   * Cancel the live order; the feed or a later status check confirms it
+   */
+  private async cancel(order: ManagedOrder): Promise<void> {
+    const leg = order.legs[order.legs.length - 1];
+    order.state = 'canceling';
+    order.cancelRequestedAt = Date.now();
+
+    logger.info('Cancelling stale order', {
+      coin: order.request.coin,
+      orderId: leg.orderId,
+      restingMs: Date.now() - order.restingSince,
+      filledSz: format(this.filledSz(order)),
+    });
+
+    try {
+      await this.client.cancelOrder(order.request.coin, leg.orderId);
+    } catch (error) {
+      // Usually the order already filled; the status check settles it
+      logger.warn('Failed to cancel stale order, will check its status', {
+        coin: order.request.coin,
+        orderId: leg.orderId,
+        error: ErrorHandler.getErrorMessage(error),
+      });
+    }
+  }
+
+  /**
+   * Ask for the status of an order whose cancel was never confirmed, sending
+   * the cancel again if it is still open
+   */
+  private async confirmCancel(order: ManagedOrder): Promise<void> {
+    const leg = order.legs[order.legs.length - 1];
+    const status = await this.client.getOrderStatus(leg.orderId);
+    this.applyStatus(order, leg.orderId, status.status, status.remainingSz);
+
+    if (order.state === 'canceling' && status.status === 'open') {
+      await this.cancel(order);
+    }
+  }
+
+  /**
+   * Move a chased order to the best bid or ask if the book has moved away from it
+   */
+  private async chaseBook(order: ManagedOrder): Promise<void> {
+    order.checkedAt = Date.now();
+    const { coin, side } = order.request;
+    const [meta, book] = await Promise.all([
+      this.client.getAssetMeta(coin),
+      this.client.getTopOfBook(coin),
+    ]);
+
+    const limitPx = roundPrice(parseFloat(side === 'B' ? book.bid : book.ask), meta.szDecimals);
+    if (parseFloat(limitPx) === parseFloat(order.request.limitPx ?? '0')) return;
+
+    await this.reprice(order, limitPx);
+  }
+
+  /**
+   * Replace the live order with one for the unfilled size at limitPx, or at the
+   * current mid when none is given
+   */
+  private async reprice(order: ManagedOrder, targetPx?: string): Promise<void> {
+    const { coin } = order.request;
+    const leg = order.legs[order.legs.length - 1];
+    order.replacing = true;
+
+    try {
+      try {
+        await this.client.cancelOrder(coin, leg.orderId);
+      } catch (error) {
+        // Leave it to the cancel confirmation to find out what happened
+        logger.warn('Failed to cancel stale order for re-pricing', {
+          coin,
+          orderId: leg.orderId,
+          error: ErrorHandler.getErrorMessage(error),
+        });
+        order.state = 'canceling';
+        order.cancelRequestedAt = Date.now();
+        return;
+      }
+
+      // The cancelled order may have filled further before the cancel landed
+      const status = await this.client.getOrderStatus(leg.orderId);
+      this.applyStatus(order, leg.orderId, status.status, status.remainingSz);
+      if (isTerminal(order.state)) return;
+
+      const meta = await this.client.getAssetMeta(coin);
+      const sz = roundSize(
+        order.size - this.filledSz(order),
+        meta.szDecimals,
+        order.request.reduceOnly ? 'down' : 'nearest'
+      );
+      if (parseFloat(sz) <= 0) {
+        this.finish(order, 'filled');
+        return;
+      }
+
+      const limitPx = targetPx ?? roundPrice(await this.midPrice(coin), meta.szDecimals);
+      // Cloids are single-use, so each replacement gets its own
+      const request: OrderRequest = {
+        ...order.request,
+        sz,
+        limitPx,
+        cloid:
+          order.request.cloid &&
+          deriveCloid(`${order.request.cloid}:reprice:${order.reprices + 1}`),
+      };
+
+      let placed: PlacedOrder;
+      try {
+        placed = await this.client.placeOrder(request);
+      } catch (error) {
+        // e.g. a post-only order that would now cross; keep what filled
+        logger.warn('Re-priced order rejected', {
+          coin,
+          limitPx,
+          error: ErrorHandler.getErrorMessage(error),
+        });
+        this.finish(order, 'canceled');
+        return;
+      }
+
+      order.replacing = false;
+      order.reprices++;
+      order.request = request;
+      order.restingSince = Date.now();
+
+      logger.info(targetPx ? 'Re-priced order to the top of the book' : 'Re-priced stale order', {
+        coin,
+        previousOrderId: leg.orderId,
+        orderId: placed.orderId,
+        sz,
+        limitPx,
+        reprices: order.reprices,
+      });
+
+      const next = this.addLeg(order, placed.orderId, request);
+      if (placed.status === 'filled') {
+        next.reportedSz = parseFloat(placed.filledSz ?? sz);
+        next.fallbackPx = parseFloat(placed.avgPx ?? limitPx);
+        this.advance(order);
+      }
+    } finally {
+      order.replacing = false;
+    }
+  }
+
+  private async midPrice(coin: string): Promise<number> {
+    const mids = await this.client.getAllMids();
+    const mid = parseFloat(mids[coin]);
+    if (!(mid > 0)) {
+      throw new TradingError(`No mid price for ${coin}`, true, { coin });
+    }
+    return mid;
+  }
+}
+
+function isTerminal(state: OrderState): boolean {
+  return state === 'filled' || state === 'canceled' || state === 'rejected';
+}
+
+function format(value: number): string {
+  return removeTrailingZeros(value.toFixed(8));
+}
@@ -0,0 +1,323 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { removeTrailingZeros, roundPrice } from './utils/risk.js';
+import { fetchAtr } from './utils/volatility.js';
+import { ErrorHandler, retryWithBackoff } from './utils/errors.js';
+import { sendWarningNotification } from './notifications/telegram.js';
+import type { Position, TpSl, TriggerOrder } from './types.js';
+
+/**
+ * Trigger orders protecting one position
+ */
+interface Protection {
+  szi: string;
+  entryPx: string;
+  orders: Partial<Record<TpSl, { orderId: string; triggerPx: string }>>;
+}
+
+/**
+ * Stop-loss and take-profit management
+ * Keeps reduce-only trigger orders on each of our positions, replacing them when
+ * the position size or entry changes and cancelling them once it is closed
+ */
+export class ProtectionManager {
+  private client: ExchangeAdapter;
+  private ourAddress: string;
+  private protections: Map<string, Protection> = new Map();
+  // Per-coin queue so overlapping syncs never place duplicate triggers
+  private queues: Map<string, Promise<void>> = new Map();
+  // Syncs wait for triggers left by a previous run to be restored
+  private ready: Promise<void> = Promise.resolve();
+  private intervalId?: ReturnType<typeof setInterval>;
+
+  constructor(client: ExchangeAdapter) {
+    this.client = client;
+    this.ourAddress = client.getAddress();
+  }
+
+  /**
+   * Whether stop-loss or take-profit orders are configured
+   */
+  isEnabled(): boolean {
+    return (
+      config.PROTECTION_MODE !== 'off' &&
+      (config.STOP_LOSS_DISTANCE > 0 || config.TAKE_PROFIT_DISTANCE > 0)
+    );
+  }
+
+  /**
+   * Start periodic sync of all positions
+   * Catches positions changed outside the copy flow, e.g. a trigger firing
+   */
+  start(intervalSeconds: number): void {
+    if (!this.isEnabled()) return;
+
+    logger.info(`Starting stop-loss/take-profit sync every ${intervalSeconds} seconds`, {
+      mode: config.PROTECTION_MODE,
+      stopLoss: config.STOP_LOSS_DISTANCE,
+      takeProfit: config.TAKE_PROFIT_DISTANCE,
+    });
+
+    this.ready = this.restore();
+    void this.syncAll();
+    this.intervalId = setInterval(() => {
+      void this.syncAll();
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop periodic sync
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info('Stop-loss/take-profit sync stopped');
+    }
+  }
+
+  /**
+   * Bring the trigger orders for one coin in line with our position
+   */
+  sync(coin: string): Promise<void> {
+    if (!this.isEnabled()) return Promise.resolve();
+
+    const previous = this.queues.get(coin) ?? this.ready;
+    const next = previous.then(async () => {
+      try {
+        const positions = await this.client.getPositions(this.ourAddress);
+        await this.apply(coin, positions.find((p) => p.coin === coin));
+      } catch (error) {
+        logger.error('Failed to sync stop-loss/take-profit', {
+          coin,
+          ...ErrorHandler.formatError(error),
+        });
+      }
+    });
+
+    this.queues.set(coin, next);
+    return next;
+  }
+
+  /**
+   * Sync every position we hold or still protect
+   */
+  async syncAll(): Promise<void> {
+    try {
+      await this.ready;
+      const positions = await this.client.getPositions(this.ourAddress);
+      const coins = new Set([...positions.map((p) => p.coin), ...this.protections.keys()]);
+
+      for (const coin of coins) {
+        const previous = this.queues.get(coin) ?? Promise.resolve();
+        const next = previous.then(() =>
+          this.apply(coin, positions.find((p) => p.coin === coin)).catch((error) => {
+            logger.error('Failed to sync stop-loss/take-profit', {
+              coin,
+              ...ErrorHandler.formatError(error),
+            });
+          })
+        );
+        this.queues.set(coin, next);
+        await next;
+      }
+    } catch (error) {
+      logger.error('Stop-loss/take-profit sync failed', ErrorHandler.formatError(error));
+    }
+  }
+
+  /**
+   * Rebuild the trigger map from the reduce-only triggers already on the exchange
+   * Triggers that still match the position and the configured distances are kept;
+   * the rest are cancelled by the first sync, and duplicates straight away
+   */
+  private async restore(): Promise<void> {
+    try {
+      const [orders, positions] = await Promise.all([
+        this.client.getTriggerOrders(this.ourAddress),
+        this.client.getPositions(this.ourAddress),
+      ]);
+
+      const byCoin = new Map<string, TriggerOrder[]>();
+      for (const order of orders) {
+        byCoin.set(order.coin, [...(byCoin.get(order.coin) ?? []), order]);
+      }
+
+      for (const [coin, coinOrders] of byCoin) {
+        const protection: Protection = { szi: '', entryPx: '', orders: {} };
+        for (const order of coinOrders) {
+          if (protection.orders[order.tpsl]) {
+            await this.cancelTrigger(coin, order.orderId);
+            continue;
+          }
+          protection.orders[order.tpsl] = { orderId: order.orderId, triggerPx: order.triggerPx };
+        }
+
+        const position = positions.find((p) => p.coin === coin);
+        if (position && this.covers(position, coinOrders, protection)) {
+          protection.szi = position.szi;
+          protection.entryPx = position.entryPx;
+        }
+        this.protections.set(coin, protection);
+      }
+
+      if (byCoin.size > 0) {
+        logger.info('Restored stop-loss/take-profit orders', {
+          coins: [...byCoin.keys()],
+          kept: [...this.protections].filter(([, p]) => p.szi !== '').map(([coin]) => coin),
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to restore stop-loss/take-profit orders', ErrorHandler.formatError(error));
+    }
+  }
+
+  /**
+   * Whether restored triggers close the whole position and match the configured legs
+   */
+  private covers(position: Position, orders: TriggerOrder[], protection: Protection): boolean {
+    const size = parseFloat(position.szi);
+    const closeSide = size > 0 ? 'A' : 'B';
+    return (
+      size !== 0 &&
+      orders.every((order) => order.side === closeSide && parseFloat(order.sz) === Math.abs(size)) &&
+      (config.STOP_LOSS_DISTANCE > 0) === (protection.orders.sl !== undefined) &&
+      (config.TAKE_PROFIT_DISTANCE > 0) === (protection.orders.tp !== undefined)
+    );
+  }
+
+  /**
+   * Replace or cancel trigger orders to match a position
+   */
+  private async apply(coin: string, position: Position | undefined): Promise<void> {
+    const existing = this.protections.get(coin);
+    const size = parseFloat(position?.szi ?? '0');
+
+    if (!position || size === 0) {
+      if (existing) {
+        await this.cancelAll(coin, existing);
+        this.protections.delete(coin);
+        logger.info('Position closed, stop-loss/take-profit cancelled', { coin });
+      }
+      return;
+    }
+
+    if (existing && existing.szi === position.szi && existing.entryPx === position.entryPx) {
+      return;
+    }
+
+    if (existing) {
+      await this.cancelAll(coin, existing);
+    }
+
+    const protection: Protection = { szi: position.szi, entryPx: position.entryPx, orders: {} };
+    this.protections.set(coin, protection);
+
+    const levels = await this.calculateLevels(coin, size, parseFloat(position.entryPx));
+    if (!levels) return;
+
+    const meta = await this.client.getAssetMeta(coin);
+    const closeSide = size > 0 ? 'A' : 'B';
+    const sz = removeTrailingZeros(Math.abs(size).toString());
+
+    for (const tpsl of ['sl', 'tp'] as const) {
+      const level = levels[tpsl];
+      if (level === undefined) continue;
+
+      if (level <= 0) {
+        logger.warn('Computed trigger price is not positive, skipping', { coin, tpsl, level });
+        continue;
+      }
+
+      const triggerPx = roundPrice(level, meta.szDecimals);
+      try {
+        const orderId = await retryWithBackoff(
+          () => this.client.placeTriggerOrder({ coin, side: closeSide, sz, triggerPx, tpsl }),
+          { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 }
+        );
+        protection.orders[tpsl] = { orderId, triggerPx };
+      } catch (error) {
+        // An unprotected position is worth telling someone about
+        await sendWarningNotification(`Failed to place ${tpsl.toUpperCase()} for ${coin}`, {
+          triggerPx,
+          size: position.szi,
+          error: ErrorHandler.getErrorMessage(error),
+        });
+      }
+    }
+
+    logger.info('Stop-loss/take-profit placed', {
+      coin,
+      szi: position.szi,
+      entryPx: position.entryPx,
+      stopLoss: protection.orders.sl?.triggerPx,
+      takeProfit: protection.orders.tp?.triggerPx,
+    });
+  }
+
+  /**
+   * Stop-loss and take-profit prices for a position
+   */
+  private async calculateLevels(
+    coin: string,
+    size: number,
+    entryPx: number
+  ): Promise<Partial<Record<TpSl, number>> | undefined> {
+    const direction = size > 0 ? 1 : -1;
+    let unit: number;
+
+    switch (config.PROTECTION_MODE) {
+      case 'percent':
+        unit = entryPx / 100;
+        break;
+      case 'usd':
+        // Price move that gains or loses one dollar on the whole position
+        unit = 1 / Math.abs(size);
+        break;
+      case 'atr': {
+        const atr = await fetchAtr(this.client, coin);
+        if (atr === undefined) {
+          logger.warn('Not enough candles for ATR, leaving position unprotected', { coin });
+          return undefined;
+        }
+        unit = atr;
+        break;
+      }
+      default:
+        return undefined;
+    }
+
+    const levels: Partial<Record<TpSl, number>> = {};
+    if (config.STOP_LOSS_DISTANCE > 0) {
+      levels.sl = entryPx - direction * config.STOP_LOSS_DISTANCE * unit;
+    }
+    if (config.TAKE_PROFIT_DISTANCE > 0) {
+      levels.tp = entryPx + direction * config.TAKE_PROFIT_DISTANCE * unit;
+    }
+    return levels;
+  }
+
+  /**
+   * Cancel a position's trigger orders
+   * Triggers that already fired are gone, so cancel failures are only logged
+   */
+  private async cancelAll(coin: string, protection: Protection): Promise<void> {
+    for (const order of Object.values(protection.orders)) {
+      await this.cancelTrigger(coin, order.orderId);
+    }
+    protection.orders = {};
+  }
+
+  private async cancelTrigger(coin: string, orderId: string): Promise<void> {
+    try {
+      await this.client.cancelOrder(coin, orderId);
+    } catch (error) {
+      logger.warn('Failed to cancel trigger order', {
+        coin,
+        orderId,
+        error: ErrorHandler.getErrorMessage(error),
+      });
+    }
+  }
+}
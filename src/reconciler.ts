@@ -0,0 +1,303 @@
+import { config } from './config.js';
+import { logger, loggerUtils } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { TradeExecutor } from './tradeExecutor.js';
+import { RiskSupervisor } from './riskSupervisor.js';
+import { ProtectionManager } from './protectionManager.js';
+import { AssetFilter } from './assetFilter.js';
+import { TradingSchedule } from './tradingSchedule.js';
+import {
+  calculateTargetPositions,
+  capLeverage,
+  isMarketTypeCopied,
+  removeTrailingZeros,
+  type LeaderSnapshot,
+} from './utils/risk.js';
+import { buildExposureBook } from './utils/exposure.js';
+import { deriveCloid } from './utils/cloid.js';
+import { ErrorHandler, TradingError, retryWithBackoff } from './utils/errors.js';
+import { sendErrorNotification } from './notifications/telegram.js';
+import type { CopyTradeParams, LeaderConfig, Position, TradeResult } from './types.js';
+
+/**
+ * Position-target reconciliation
+ * Computes the book we should hold from the leaders' position snapshots and
+ * issues the minimal orders to converge, instead of mirroring fill by fill
+ */
+export class Reconciler {
+  private client: ExchangeAdapter;
+  private executor: TradeExecutor;
+  private leaders: LeaderConfig[];
+  private riskSupervisor: RiskSupervisor;
+  private protectionManager: ProtectionManager;
+  private assetFilter: AssetFilter;
+  private schedule: TradingSchedule;
+  private ourAddress: string;
+  private intervalId?: ReturnType<typeof setInterval>;
+  private running = false;
+  private rerunRequested = false;
+
+  constructor(
+    client: ExchangeAdapter,
+    leaders: LeaderConfig[],
+    executor: TradeExecutor,
+    riskSupervisor: RiskSupervisor,
+    protectionManager: ProtectionManager,
+    assetFilter: AssetFilter,
+    schedule: TradingSchedule
+  ) {
+    this.client = client;
+    this.leaders = leaders;
+    this.executor = executor;
+    this.riskSupervisor = riskSupervisor;
+    this.protectionManager = protectionManager;
+    this.assetFilter = assetFilter;
+    this.schedule = schedule;
+    this.ourAddress = client.getAddress();
+  }
+
+  /**
+   * Start periodic reconciliation
+   */
+  start(intervalSeconds: number): void {
+    logger.info(`Starting reconciliation every ${intervalSeconds} seconds`, {
+      tolerancePercent: config.RECONCILE_TOLERANCE_PERCENT,
+    });
+
+    // Run immediately
+    this.requestReconcile('startup');
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      this.requestReconcile('timer');
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop periodic reconciliation
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info('Reconciliation stopped');
+    }
+  }
+
+  /**
+   * Schedule a reconciliation pass
+   * Requests arriving mid-pass are coalesced into one follow-up pass
+   */
+  requestReconcile(reason: string): void {
+    if (this.running) {
+      this.rerunRequested = true;
+      return;
+    }
+
+    this.running = true;
+    void this.reconcile(reason)
+      .catch((error) => {
+        logger.error('Reconciliation failed', {
+          reason,
+          ...ErrorHandler.formatError(error),
+        });
+      })
+      .finally(() => {
+        this.running = false;
+        if (this.rerunRequested) {
+          this.rerunRequested = false;
+          this.requestReconcile('coalesced');
+        }
+      });
+  }
+
+  /**
+   * Compare our book with the target book and place converging orders
+   * `only` limits the pass to some coins
+   */
+  async reconcile(reason: string, only?: string[]): Promise<TradeResult[]> {
+    const { account, snapshots, mids } = await retryWithBackoff(
+      async () => {
+        const [account, snapshots, mids] = await Promise.all([
+          this.client.getUserState(this.ourAddress),
+          Promise.all(this.leaders.map((leader) => this.getLeaderSnapshot(leader))),
+          this.client.getAllMids(),
+        ]);
+        return { account, snapshots, mids };
+      },
+      { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 }
+    );
+
+    const ourPositions = account.positions;
+    const ourEquity = parseFloat(account.equity.accountValue);
+    const exposure = buildExposureBook(ourPositions);
+    const targets = calculateTargetPositions(snapshots, ourEquity);
+
+    const coins = new Set(
+      [...Object.keys(targets), ...ourPositions.map((p) => p.coin)].filter(
+        (coin) => (!only || only.includes(coin)) && isMarketTypeCopied(coin)
+      )
+    );
+    let openCoins = ourPositions.filter((p) => parseFloat(p.szi) !== 0).length;
+    const orders: Array<{
+      params: CopyTradeParams;
+      price: string;
+      current: number;
+      desired: number;
+    }> = [];
+    const passId = Date.now();
+
+    logger.debug('Reconciliation pass', { reason, coins: only, ourEquity, targets });
+
+    for (const coin of coins) {
+      const current = parseFloat(ourPositions.find((p) => p.coin === coin)?.szi ?? '0');
+      const desired = targets[coin] ?? 0;
+      let delta = desired - current;
+      const price = mids[coin];
+
+      // Tolerance band relative to the desired size
+      if (Math.abs(delta) <= (Math.abs(desired) * config.RECONCILE_TOLERANCE_PERCENT) / 100) {
+        continue;
+      }
+
+      if (!price) {
+        logger.warn('No mid price for coin, skipping reconciliation', { coin });
+        continue;
+      }
+
+      if (Math.abs(delta) * parseFloat(price) < config.MIN_NOTIONAL) {
+        logger.debug('Reconciliation delta below minimum notional', { coin, current, desired });
+        continue;
+      }
+
+      if (current === 0 && openCoins >= config.MAX_CONCURRENT_TRADES) {
+        logger.warn('Max concurrent trades reached, skipping reconciliation open', {
+          coin,
+          max: config.MAX_CONCURRENT_TRADES,
+        });
+        continue;
+      }
+
+      // Moving towards zero without crossing it can be reduce-only
+      let reduceOnly =
+        current !== 0 && Math.abs(desired) < Math.abs(current) && desired * current >= 0;
+
+      // Only reductions go out while account risk limits are tripped
+      if (!reduceOnly && this.riskSupervisor.isTripped()) {
+        logger.warn('Risk limits tripped, skipping reconciliation increase', {
+          coin,
+          current,
+          desired,
+        });
+        continue;
+      }
+
+      // New exposure waits out blackout windows; a flip still closes the old side
+      if (!reduceOnly) {
+        const blackout = this.schedule.getBlackoutReason();
+        if (blackout) {
+          this.schedule.recordSkippedOpen();
+          const flipping = current !== 0 && desired * current < 0;
+          logger.info('Inside blackout window, skipping reconciliation increase', {
+            coin,
+            current,
+            desired,
+            blackout,
+            closing: flipping,
+          });
+          if (!flipping) continue;
+          delta = -current;
+          reduceOnly = true;
+        }
+      }
+
+      if (!reduceOnly) {
+        const ineligible = await this.assetFilter.getIneligibleReason(coin);
+        if (ineligible) {
+          logger.debug('Asset not eligible, skipping reconciliation increase', {
+            coin,
+            reason: ineligible,
+          });
+          continue;
+        }
+      }
+
+      const params: CopyTradeParams = {
+        coin,
+        side: delta > 0 ? 'B' : 'A',
+        size: removeTrailingZeros(Math.abs(delta).toFixed(8)),
+        orderType: 'Market',
+        reduceOnly,
+        ...this.getTargetLeverage(coin, snapshots),
+      };
+
+      // Planned opens count towards the limit before the batch goes out
+      if (current === 0) {
+        openCoins++;
+      }
+      params.cloid = deriveCloid(`reconcile:${passId}:${coin}`);
+      orders.push({ params, price, current, desired });
+    }
+
+    if (orders.length === 0) {
+      return [];
+    }
+
+    // One signed batch for the whole pass
+    const results = await this.executor.executeBatch(orders, account, exposure);
+
+    for (const [i, { params, current, desired }] of orders.entries()) {
+      const result = results[i];
+      if (result.success) {
+        loggerUtils.logTrade('info', 'Reconciliation order executed', {
+          orderId: result.orderId,
+          params,
+          current,
+          desired,
+          reason,
+        });
+        void this.protectionManager.sync(params.coin);
+      } else {
+        loggerUtils.logTrade('error', 'Reconciliation order failed', {
+          error: result.error,
+          params,
+          current,
+          desired,
+        });
+        await sendErrorNotification(
+          new TradingError(result.error || 'Reconciliation order failed', false, { params })
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch a leader's equity and positions
+   */
+  private async getLeaderSnapshot(leader: LeaderConfig): Promise<LeaderSnapshot> {
+    const { positions, equity } = await this.client.getUserState(leader.address);
+    return { leader, positions, equity: parseFloat(equity.accountValue) };
+  }
+
+  /**
+   * Leverage and margin mode for a coin, taken from the first leader holding it
+   */
+  private getTargetLeverage(
+    coin: string,
+    snapshots: LeaderSnapshot[]
+  ): Pick<CopyTradeParams, 'leverage' | 'isCross'> {
+    const position = snapshots
+      .flatMap((snapshot) => snapshot.positions)
+      .find((p: Position) => p.coin === coin);
+
+    if (!position?.leverage) {
+      return { leverage: 1, isCross: false };
+    }
+    return {
+      leverage: capLeverage(Number(position.leverage.value)),
+      isCross: position.leverage.type === 'cross',
+    };
+  }
+}
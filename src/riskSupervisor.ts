@@ -0,0 +1,320 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from './config.js';
+import { logger, loggerUtils } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { TradeExecutor } from './tradeExecutor.js';
+import { TradingError, ErrorHandler } from './utils/errors.js';
+import { sendErrorNotification, sendInfoNotification } from './notifications/telegram.js';
+import type { TradeResult } from './types.js';
+
+/**
+ * Persisted supervisor state
+ * Survives restarts so a trip can only be cleared by an explicit resume
+ */
+interface RiskState {
+  highWaterMark: number;
+  day: string; // UTC date (YYYY-MM-DD) of dayStartEquity
+  dayStartEquity: number;
+  tripped?: {
+    reason: string;
+    at: number;
+    equity: number;
+    flattenPending?: boolean; // Until FLATTEN_ON_TRIP has closed every position
+  };
+}
+
+/**
+ * Account-level risk supervisor
+ * Tracks our equity high-water mark and daily starting equity, and pauses new
+ * opens when daily loss or peak-to-trough drawdown crosses its threshold
+ */
+export class RiskSupervisor {
+  private client: ExchangeAdapter;
+  private executor: TradeExecutor;
+  private ourAddress: string;
+  private stateFile: string;
+  private state?: RiskState;
+  private intervalId?: ReturnType<typeof setInterval>;
+
+  constructor(client: ExchangeAdapter, executor: TradeExecutor, stateFile: string) {
+    this.client = client;
+    this.executor = executor;
+    this.ourAddress = client.getAddress();
+    this.stateFile = stateFile;
+  }
+
+  /**
+   * Restore state and start periodic equity checks
+   */
+  async start(intervalSeconds: number): Promise<void> {
+    await this.load();
+
+    logger.info(`Starting risk supervisor every ${intervalSeconds} seconds`, {
+      maxDailyLossPercent: config.MAX_DAILY_LOSS_PERCENT,
+      maxDrawdownPercent: config.MAX_DRAWDOWN_PERCENT,
+      flattenOnTrip: config.FLATTEN_ON_TRIP,
+      tripped: this.state?.tripped,
+    });
+
+    if (this.state?.tripped) {
+      logger.warn('Risk supervisor is tripped from a previous run, new opens stay paused', {
+        ...this.state.tripped,
+      });
+    }
+
+    await this.check();
+    this.intervalId = setInterval(() => {
+      void this.check();
+    }, intervalSeconds * 1000);
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      logger.info('Risk supervisor stopped');
+    }
+  }
+
+  /**
+   * Whether new opens are paused
+   */
+  isTripped(): boolean {
+    return this.state?.tripped !== undefined;
+  }
+
+  /**
+   * Check equity against the loss and drawdown thresholds
+   */
+  async check(): Promise<void> {
+    let equity: number;
+    try {
+      const equityData = await this.client.getAccountEquity(this.ourAddress);
+      equity = parseFloat(equityData.accountValue);
+    } catch (error) {
+      logger.error('Risk check failed to fetch equity', ErrorHandler.formatError(error));
+      return;
+    }
+
+    if (isNaN(equity)) {
+      logger.error('Risk check received invalid equity');
+      return;
+    }
+
+    const state = this.updateMarks(equity);
+    const dailyLossPercent =
+      state.dayStartEquity > 0 ? ((state.dayStartEquity - equity) / state.dayStartEquity) * 100 : 0;
+    const drawdownPercent =
+      state.highWaterMark > 0 ? ((state.highWaterMark - equity) / state.highWaterMark) * 100 : 0;
+
+    logger.debug('Risk check', {
+      equity,
+      highWaterMark: state.highWaterMark,
+      dayStartEquity: state.dayStartEquity,
+      dailyLossPercent,
+      drawdownPercent,
+    });
+
+    if (!state.tripped) {
+      if (dailyLossPercent >= config.MAX_DAILY_LOSS_PERCENT) {
+        await this.trip(
+          `Daily loss ${dailyLossPercent.toFixed(2)}% reached limit of ${config.MAX_DAILY_LOSS_PERCENT}%`,
+          equity
+        );
+      } else if (drawdownPercent >= config.MAX_DRAWDOWN_PERCENT) {
+        await this.trip(
+          `Drawdown ${drawdownPercent.toFixed(2)}% from peak reached limit of ${config.MAX_DRAWDOWN_PERCENT}%`,
+          equity
+        );
+      }
+    }
+
+    if (state.tripped?.flattenPending) {
+      await this.flatten(state.tripped);
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Clear a trip and allow new opens again
+   * The high-water mark restarts from current equity, otherwise the same
+   * drawdown would trip again on the next check
+   */
+  async resume(): Promise<void> {
+    if (!this.state?.tripped) {
+      logger.info('Risk supervisor resume requested but it is not tripped');
+      return;
+    }
+
+    const equityData = await this.client.getAccountEquity(this.ourAddress);
+    const equity = parseFloat(equityData.accountValue);
+    const previous = this.state.tripped;
+
+    this.state = {
+      highWaterMark: equity,
+      day: currentDay(),
+      dayStartEquity: equity,
+    };
+    await this.save();
+
+    logger.warn('Risk supervisor resumed, new opens allowed again', {
+      previousTrip: previous,
+      equity,
+    });
+    await sendInfoNotification('Trading resumed after risk supervisor trip', {
+      previousReason: previous.reason,
+      equity: equity.toFixed(2),
+    });
+  }
+
+  /**
+   * Pause new opens and notify
+   * With FLATTEN_ON_TRIP the trip is marked for flattening, which check() carries out
+   */
+  private async trip(reason: string, equity: number): Promise<void> {
+    this.state!.tripped = {
+      reason,
+      at: Date.now(),
+      equity,
+      ...(config.FLATTEN_ON_TRIP && { flattenPending: true }),
+    };
+    await this.save();
+
+    const error = new TradingError(`Risk limit tripped: ${reason}`, false, {
+      equity,
+      highWaterMark: this.state!.highWaterMark,
+      dayStartEquity: this.state!.dayStartEquity,
+    });
+    logger.error('Risk supervisor tripped, pausing new opens', {
+      ...ErrorHandler.formatError(error),
+      resumeWith: `kill -USR2 ${process.pid}`,
+    });
+    await sendErrorNotification(error, {
+      flatten: config.FLATTEN_ON_TRIP,
+      resume: 'Send SIGUSR2 to the bot process',
+    });
+  }
+
+  /**
+   * Flatten after a trip
+   * A failed fetch or order is reported and left pending, so the next check tries again
+   */
+  private async flatten(tripped: NonNullable<RiskState['tripped']>): Promise<void> {
+    try {
+      const failed = (await this.flattenAll()).filter((result) => !result.success);
+      if (failed.length > 0) {
+        throw new TradingError(`${failed.length} flatten orders failed`, true, {
+          errors: failed.map((result) => result.error),
+        });
+      }
+      delete tripped.flattenPending;
+    } catch (error) {
+      logger.error('Failed to flatten positions after risk trip, retrying on next check', {
+        ...ErrorHandler.formatError(error),
+      });
+      await sendErrorNotification(
+        ErrorHandler.wrapError(error, 'Failed to flatten positions after risk trip'),
+        { retry: `Next risk check in ${config.RISK_CHECK_INTERVAL}s` }
+      );
+    }
+  }
+
+  /**
+   * Close every open position with reduce-only market orders
+   */
+  async flattenAll(): Promise<TradeResult[]> {
+    const [positions, mids] = await Promise.all([
+      this.client.getPositions(this.ourAddress),
+      this.client.getAllMids(),
+    ]);
+    const results: TradeResult[] = [];
+
+    for (const position of positions) {
+      const size = parseFloat(position.szi);
+      const price = mids[position.coin];
+      if (size === 0 || !price) continue;
+
+      const result = await this.executor.reducePosition(
+        position,
+        Math.abs(size).toString(),
+        price
+      );
+      results.push(result);
+
+      loggerUtils.logTrade(result.success ? 'info' : 'error', 'Flatten order', {
+        coin: position.coin,
+        size: position.szi,
+        orderId: result.orderId,
+        error: result.error,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Update the high-water mark and roll the daily starting equity
+   */
+  private updateMarks(equity: number): RiskState {
+    const today = currentDay();
+
+    if (!this.state) {
+      this.state = { highWaterMark: equity, day: today, dayStartEquity: equity };
+    }
+    if (this.state.day !== today) {
+      this.state.day = today;
+      this.state.dayStartEquity = equity;
+    }
+    if (equity > this.state.highWaterMark) {
+      this.state.highWaterMark = equity;
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Load persisted state
+   */
+  private async load(): Promise<void> {
+    if (!existsSync(this.stateFile)) return;
+
+    try {
+      this.state = JSON.parse(await readFile(this.stateFile, 'utf8')) as RiskState;
+    } catch (error) {
+      logger.warn('Failed to read risk state, starting fresh', {
+        stateFile: this.stateFile,
+        error: ErrorHandler.getErrorMessage(error),
+      });
+    }
+  }
+
+  /**
+   * Persist state
+   */
+  private async save(): Promise<void> {
+    if (!this.state) return;
+
+    try {
+      await mkdir(dirname(this.stateFile), { recursive: true });
+      await writeFile(this.stateFile, JSON.stringify(this.state, null, 2), 'utf8');
+    } catch (error) {
+      logger.error('Failed to save risk state', {
+        stateFile: this.stateFile,
+        ...ErrorHandler.formatError(error),
+      });
+    }
+  }
+}
+
+/**
+ * Current UTC date as YYYY-MM-DD
+ */
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
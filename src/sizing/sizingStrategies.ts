@@ -0,0 +1,179 @@
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import type { ExchangeAdapter } from '../exchange/exchangeAdapter.js';
+import { calculatePositionSize, capPositionSize, getAssetOverride } from '../utils/risk.js';
+import { fetchAtr } from '../utils/volatility.js';
+import type { LeaderConfig, Position, SizingStrategyName } from '../types.js';
+
+/**
+ * Inputs for sizing a copied open
+ */
+export interface SizingContext {
+  leader: LeaderConfig;
+  coin: string;
+  fillSize: number; // Leader's fill size
+  price: number; // Current mark price
+  ourEquity: number; // Our whole account, before the leader's weight
+  targetEquity: number;
+  targetPosition?: Position; // Leader's position after the fill
+  ourPosition?: Position;
+}
+
+/**
+ * Position sizing strategy
+ * Returns the size of our opening order, in coin units
+ */
+export interface SizingStrategy {
+  readonly name: SizingStrategyName;
+  calculateSize(context: SizingContext): Promise<number>;
+}
+
+/**
+ * Size multipliers applied by every strategy
+ */
+function multiplier(context: SizingContext): number {
+  const coinMultiplier = getAssetOverride(context.coin).sizeMultiplier ?? 1;
+  return config.SIZE_MULTIPLIER * context.leader.sizeMultiplier * coinMultiplier;
+}
+
+/**
+ * Our equity allocated to a leader
+ */
+function allocation(context: SizingContext): number {
+  return context.ourEquity * context.leader.weight;
+}
+
+/**
+ * Leader's fill scaled by our equity over theirs
+ */
+export class EquityRatioSizing implements SizingStrategy {
+  readonly name = 'equityRatio' as const;
+
+  async calculateSize(context: SizingContext): Promise<number> {
+    return calculatePositionSize(
+      context.fillSize,
+      context.price,
+      context.ourEquity,
+      context.targetEquity,
+      context.leader,
+      context.coin
+    );
+  }
+}
+
+/**
+ * Fixed USD notional per copied open
+ */
+export class FixedUsdSizing implements SizingStrategy {
+  readonly name = 'fixedUsd' as const;
+
+  async calculateSize(context: SizingContext): Promise<number> {
+    const size = (config.FIXED_USD_SIZE / context.price) * multiplier(context);
+    return capPositionSize(size, context.price, context.ourEquity, context.coin);
+  }
+}
+
+/**
+ * Fixed fraction of our allocated equity per copied open
+ */
+export class FixedFractionSizing implements SizingStrategy {
+  readonly name = 'fixedFraction' as const;
+
+  async calculateSize(context: SizingContext): Promise<number> {
+    const notional = (allocation(context) * config.FIXED_FRACTION_PERCENT) / 100;
+    const size = (notional / context.price) * multiplier(context);
+    return capPositionSize(size, context.price, context.ourEquity, context.coin);
+  }
+}
+
+/**
+ * Hold the same position-to-equity ratio as the leader
+ * Sizes against the leader's whole position and tops ours up to match, so
+ * earlier rounding or equity changes are corrected on the next open
+ */
+export class LeverageMatchedSizing implements SizingStrategy {
+  readonly name = 'leverageMatched' as const;
+  private fallback = new EquityRatioSizing();
+
+  async calculateSize(context: SizingContext): Promise<number> {
+    const leaderSize = Math.abs(parseFloat(context.targetPosition?.szi ?? '0'));
+    if (!leaderSize || context.targetEquity <= 0) {
+      return this.fallback.calculateSize(context);
+    }
+
+    const desired =
+      (leaderSize * allocation(context) * multiplier(context)) / context.targetEquity;
+    const ourSize = Math.abs(parseFloat(context.ourPosition?.szi ?? '0'));
+    const size = Math.max(desired - ourSize, 0);
+
+    logger.debug('Leverage-matched size calculation', {
+      coin: context.coin,
+      leaderSize,
+      desired,
+      ourSize,
+      size,
+    });
+
+    return capPositionSize(size, context.price, context.ourEquity, context.coin);
+  }
+}
+
+/**
+ * Size so that a one-ATR move costs VOLATILITY_TARGET_PERCENT of our allocated equity
+ */
+export class VolatilityTargetSizing implements SizingStrategy {
+  readonly name = 'volatilityTarget' as const;
+  private client: ExchangeAdapter;
+  private fallback = new EquityRatioSizing();
+
+  constructor(client: ExchangeAdapter) {
+    this.client = client;
+  }
+
+  async calculateSize(context: SizingContext): Promise<number> {
+    const atr = await fetchAtr(this.client, context.coin);
+    if (!atr) {
+      logger.warn('Not enough candles for ATR, falling back to equity ratio sizing', {
+        coin: context.coin,
+      });
+      return this.fallback.calculateSize(context);
+    }
+
+    const riskBudget = (allocation(context) * config.VOLATILITY_TARGET_PERCENT) / 100;
+    const size = (riskBudget / atr) * multiplier(context);
+
+    logger.debug('Volatility-targeted size calculation', {
+      coin: context.coin,
+      atr,
+      riskBudget,
+      size,
+    });
+
+    return capPositionSize(size, context.price, context.ourEquity, context.coin);
+  }
+}
+
+/**
+ * Sizing strategies by name, resolved per coin from SIZING_STRATEGY_OVERRIDES
+ */
+export class SizingStrategies {
+  private strategies: Record<SizingStrategyName, SizingStrategy>;
+
+  constructor(client: ExchangeAdapter) {
+    this.strategies = {
+      equityRatio: new EquityRatioSizing(),
+      fixedUsd: new FixedUsdSizing(),
+      fixedFraction: new FixedFractionSizing(),
+      leverageMatched: new LeverageMatchedSizing(),
+      volatilityTarget: new VolatilityTargetSizing(client),
+    };
+  }
+
+  /**
+   * Strategy for a coin
+   */
+  forCoin(coin: string): SizingStrategy {
+    const name = config.SIZING_STRATEGY_OVERRIDES[coin] ?? config.SIZING_STRATEGY;
+    return this.strategies[name];
+  }
+}
@@ -0,0 +1,202 @@
+import { existsSync } from 'fs';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from '../logger.js';
+import { ErrorHandler } from '../utils/errors.js';
+import type { FillEvent, FillOutcome } from '../types.js';
+
+/**
+ * Append-only JSON journal of processed fills
+ * One JSON entry per line; state is rebuilt by replaying the file on startup
+ */
+
+/**
+ * Journal entry recorded before a fill is copied
+ */
+export interface FillJournalEntry {
+  type: 'fill';
+  key: string;
+  leader: string;
+  coin: string;
+  hash: string;
+  oid: number;
+  time: number;
+  recordedAt: number;
+}
+
+/**
+ * Journal entry recorded after a fill has been handled
+ */
+export interface OutcomeJournalEntry extends FillOutcome {
+  type: 'outcome';
+  key: string;
+  leader: string;
+  coin: string;
+  recordedAt: number;
+}
+
+export type JournalEntry = FillJournalEntry | OutcomeJournalEntry;
+
+export class TradeJournal {
+  private filePath: string;
+  private processed: Set<string> = new Set();
+  private activeTrades: Map<string, Set<string>> = new Map();
+  private lastFillTime: Map<string, number> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Unique key for a fill
+   * Uses the trade ID when available, since one transaction hash can carry several fills
+   */
+  static fillKey(fill: FillEvent): string {
+    if (fill.tid !== undefined) {
+      return `${fill.hash}:${fill.tid}`;
+    }
+    return `${fill.hash}:${fill.oid}:${fill.px}:${fill.sz}:${fill.time}`;
+  }
+
+  /**
+   * Replay the journal file to rebuild state
+   */
+  async load(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    if (!existsSync(this.filePath)) {
+      logger.info('No trade journal found, starting with empty state', {
+        filePath: this.filePath,
+      });
+      return;
+    }
+
+    const content = await readFile(this.filePath, 'utf8');
+    let skipped = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as JournalEntry);
+      } catch (error) {
+        // A crash mid-write can leave a truncated last line
+        skipped++;
+        logger.warn('Skipping malformed journal entry', {
+          line: line.substring(0, 200),
+          error: ErrorHandler.getErrorMessage(error),
+        });
+      }
+    }
+
+    logger.debug('Trade journal loaded', {
+      filePath: this.filePath,
+      processed: this.processed.size,
+      skipped,
+    });
+  }
+
+  /**
+   * Check whether a fill has already been handled
+   */
+  isProcessed(fill: FillEvent): boolean {
+    return this.processed.has(TradeJournal.fillKey(fill));
+  }
+
+  /**
+   * Mark a fill as processed
+   * State is updated synchronously so concurrent duplicates are rejected immediately
+   */
+  recordFill(leader: string, fill: FillEvent): Promise<void> {
+    return this.append({
+      type: 'fill',
+      key: TradeJournal.fillKey(fill),
+      leader,
+      coin: fill.coin,
+      hash: fill.hash,
+      oid: fill.oid,
+      time: fill.time,
+      recordedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Record the order placed for a fill and its outcome
+   */
+  recordOutcome(leader: string, fill: FillEvent, outcome: FillOutcome): Promise<void> {
+    return this.append({
+      ...outcome,
+      type: 'outcome',
+      key: TradeJournal.fillKey(fill),
+      leader,
+      coin: fill.coin,
+      recordedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Active trades by coin, with the leaders holding each one
+   */
+  getActiveTrades(): Map<string, Set<string>> {
+    return new Map(
+      [...this.activeTrades].map(([coin, leaders]) => [coin, new Set(leaders)])
+    );
+  }
+
+  /**
+   * Time of the newest processed fill for a leader
+   */
+  getLastFillTime(leader: string): number | undefined {
+    return this.lastFillTime.get(leader);
+  }
+
+  /**
+   * Number of processed fills
+   */
+  getProcessedCount(): number {
+    return this.processed.size;
+  }
+
+  /**
+   * Apply an entry to in-memory state and persist it
+   */
+  private append(entry: JournalEntry): Promise<void> {
+    this.apply(entry);
+
+    const write = this.writeQueue.then(() =>
+      appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8')
+    );
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Apply an entry to in-memory state
+   */
+  private apply(entry: JournalEntry): void {
+    if (entry.type === 'fill') {
+      this.processed.add(entry.key);
+      const last = this.lastFillTime.get(entry.leader) ?? 0;
+      if (entry.time > last) {
+        this.lastFillTime.set(entry.leader, entry.time);
+      }
+      return;
+    }
+
+    if (entry.status !== 'executed') return;
+
+    // A flip leaves the leader holding the coin on the other side
+    if (entry.action === 'open' || entry.action === 'flip') {
+      const holders = this.activeTrades.get(entry.coin) ?? new Set<string>();
+      holders.add(entry.leader);
+      this.activeTrades.set(entry.coin, holders);
+    } else if (entry.action === 'close') {
+      const holders = this.activeTrades.get(entry.coin);
+      holders?.delete(entry.leader);
+      if (holders && holders.size === 0) {
+        this.activeTrades.delete(entry.coin);
+      }
+    }
+  }
+}
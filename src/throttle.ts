@@ -0,0 +1,117 @@
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { sendInfoNotification, sendWarningNotification } from './notifications/telegram.js';
+import type { TradeAction } from './types.js';
+
+/**
+ * Order throttle and churn detection
+ * Caps copied orders per minute overall and per coin, and spots coins the
+ * leader keeps opening and closing. Fills on those coins are not copied one by
+ * one; the coins are queued for a periodic net-position sync instead.
+ */
+export class TradeThrottle {
+  private orders: number[] = [];
+  private coinOrders: Map<string, number[]> = new Map();
+  // Times the leader closed or flipped a position, by coin
+  private cycles: Map<string, number[]> = new Map();
+  private churning: Set<string> = new Set();
+  private pendingSync: Set<string> = new Set();
+
+  /**
+   * Decide whether a fill may be copied now
+   * Returns the reason it may not, and queues its coin for a net-position sync
+   */
+  admit(coin: string, action: TradeAction, time = Date.now()): string | undefined {
+    if (action === 'close' || action === 'flip') {
+      this.recordCycle(coin, time);
+    }
+
+    if (this.isChurning(coin, time)) {
+      this.pendingSync.add(coin);
+      return `${coin} is churning, following net position`;
+    }
+
+    const minuteAgo = time - 60_000;
+    this.orders = this.orders.filter((t) => t > minuteAgo);
+    const coinOrders = (this.coinOrders.get(coin) ?? []).filter((t) => t > minuteAgo);
+
+    let reason: string | undefined;
+    if (this.orders.length >= config.MAX_ORDERS_PER_MINUTE) {
+      reason = `Order limit of ${config.MAX_ORDERS_PER_MINUTE} per minute reached`;
+    } else if (coinOrders.length >= config.MAX_ORDERS_PER_COIN_PER_MINUTE) {
+      reason = `Order limit of ${config.MAX_ORDERS_PER_COIN_PER_MINUTE} per minute reached for ${coin}`;
+    }
+
+    if (reason) {
+      this.coinOrders.set(coin, coinOrders);
+      this.pendingSync.add(coin);
+      logger.warn('Fill throttled, queued for net-position sync', { coin, action, reason });
+      return reason;
+    }
+
+    this.orders.push(time);
+    coinOrders.push(time);
+    this.coinOrders.set(coin, coinOrders);
+    return undefined;
+  }
+
+  /**
+   * Coins to bring in line with the leaders' net positions
+   * Includes every coin still churning, so they keep syncing until churn ends
+   */
+  takeSyncCoins(time = Date.now()): string[] {
+    for (const coin of [...this.churning]) {
+      if (this.isChurning(coin, time)) {
+        this.pendingSync.add(coin);
+      }
+    }
+
+    const coins = [...this.pendingSync];
+    this.pendingSync.clear();
+    return coins;
+  }
+
+  /**
+   * Record a leader open/close cycle on a coin
+   */
+  private recordCycle(coin: string, time: number): void {
+    const cycles = this.cycles.get(coin) ?? [];
+    cycles.push(time);
+    this.cycles.set(coin, cycles);
+  }
+
+  /**
+   * Whether a coin has too many cycles in the churn window
+   * Notifies when a coin starts or stops churning
+   */
+  private isChurning(coin: string, time: number): boolean {
+    const windowStart = time - config.CHURN_WINDOW_SECONDS * 1000;
+    const cycles = (this.cycles.get(coin) ?? []).filter((t) => t > windowStart);
+    if (cycles.length > 0) {
+      this.cycles.set(coin, cycles);
+    } else {
+      this.cycles.delete(coin);
+    }
+
+    const churning = cycles.length >= config.CHURN_CYCLE_THRESHOLD;
+    if (churning && !this.churning.has(coin)) {
+      this.churning.add(coin);
+      logger.warn('Churn detected, switching coin to net-position sync', {
+        coin,
+        cycles: cycles.length,
+        windowSeconds: config.CHURN_WINDOW_SECONDS,
+      });
+      void sendWarningNotification(`Churn detected on ${coin}`, {
+        cycles: cycles.length,
+        window: `${config.CHURN_WINDOW_SECONDS}s`,
+        mode: `net-position sync every ${config.NET_SYNC_INTERVAL}s`,
+      });
+    } else if (!churning && this.churning.has(coin)) {
+      this.churning.delete(coin);
+      logger.info('Churn ended, copying fills again', { coin });
+      void sendInfoNotification(`Churn ended on ${coin}, copying fills again`);
+    }
+
+    return churning;
+  }
+}
@@ -0,0 +1,945 @@
+import { config } from './config.js';
+import { logger, loggerUtils } from './logger.js';
+import type { ExchangeAdapter } from './exchange/exchangeAdapter.js';
+import { LeverageManager } from './leverageManager.js';
+import { LiquidationGuard } from './liquidationGuard.js';
+import { OrderManager } from './orderManager.js';
+import {
+  capLeverage,
+  capPositionSize,
+  getAssetOverride,
+  removeTrailingZeros,
+  roundPrice,
+  roundSize,
+  validateTradeParams,
+} from './utils/risk.js';
+import { getExposureLimit, recordExposure, type ExposureBook } from './utils/exposure.js';
+import { deriveCloid } from './utils/cloid.js';
+import {
+  ValidationError,
+  TradingError,
+  ErrorHandler,
+  retryWithBackoff,
+} from './utils/errors.js';
+import type {
+  AssetMeta,
+  CopyTradeParams,
+  ExecutionStrategy,
+  BatchOrderResult,
+  OrderRequest,
+  OrderStatusInfo,
+  PlacedOrder,
+  Position,
+  TimeInForce,
+  TradeResult,
+  UserState,
+} from './types.js';
+
+/**
+ * Price band for "market" orders
+ * Hyperliquid has no true market orders; they are IOC limits far through the book
+ */
+const MARKET_SLIPPAGE_BPS = 500;
+
+/**
+ * A trade fitted to the asset and our limits, ready to place
+ */
+interface PreparedTrade {
+  params: CopyTradeParams;
+  meta: AssetMeta;
+  requestedSize: string;
+  adjustments: string[];
+}
+
+/**
+ * Trade execution
+ * Validates copy trade parameters and places orders using the configured strategy
+ */
+export class TradeExecutor {
+  private client: ExchangeAdapter;
+  private leverageManager: LeverageManager;
+  private liquidationGuard: LiquidationGuard;
+  private orderManager: OrderManager;
+
+  constructor(
+    client: ExchangeAdapter,
+    leverageManager: LeverageManager,
+    liquidationGuard: LiquidationGuard,
+    orderManager: OrderManager
+  ) {
+    this.client = client;
+    this.leverageManager = leverageManager;
+    this.liquidationGuard = liquidationGuard;
+    this.orderManager = orderManager;
+  }
+
+  /**
+   * Execute trade with retry logic
+   * `price` is the reference price slippage is measured against (leader fill or mid)
+   * `account` is our equity and positions the trade was decided on; every check
+   * uses it rather than fetching its own
+   * `exposure` is our current book; it is updated with the filled notional on success
+   * The strategy defaults to the coin's override, then EXECUTION_STRATEGY
+   */
+  async execute(
+    requestedParams: CopyTradeParams,
+    price: string,
+    account: UserState,
+    exposure: ExposureBook,
+    requestedStrategy?: ExecutionStrategy
+  ): Promise<TradeResult> {
+    const strategy = requestedStrategy ?? this.strategyFor(requestedParams.coin);
+    return this.executeOne(requestedParams, price, account, exposure, strategy);
+  }
+
+  /**
+   * Prepare and place one trade
+   * `pendingSize` is what trades executed ahead of it since `account` was
+   * fetched added to the coin's position
+   */
+  private async executeOne(
+    requestedParams: CopyTradeParams,
+    price: string,
+    account: UserState,
+    exposure: ExposureBook,
+    strategy: ExecutionStrategy,
+    pendingSize = 0
+  ): Promise<TradeResult> {
+    const prepared = await this.prepare(
+      requestedParams,
+      price,
+      account,
+      exposure,
+      strategy,
+      pendingSize
+    );
+    if ('success' in prepared) {
+      return prepared;
+    }
+    const { params, meta } = prepared;
+
+    try {
+      const placed =
+        strategy === 'post_only'
+          ? await this.executePostOnly(params, price, meta)
+          : await this.placeTracked(params, this.takerRequest(params, price, strategy, meta));
+
+      return this.settle(prepared, price, strategy, placed, exposure);
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Trade execution failed after retries', {
+        ...formattedError,
+        params,
+        strategy,
+      });
+
+      return {
+        success: false,
+        error: formattedError.message,
+        params,
+        strategy,
+        requestedPx: price,
+      };
+    }
+  }
+
+  /**
+   * Reduce one of our positions with a reduce-only market order, for safety
+   * actions like the liquidation watcher and the circuit breaker's flatten
+   * Skips the asset filters, minimum notional and exposure checks that could
+   * block a de-risking order; the size is only held to the current position.
+   * A size that rounds to zero closes the whole position
+   */
+  async reducePosition(position: Position, size: string, price: string): Promise<TradeResult> {
+    const held = Math.abs(parseFloat(position.szi));
+    const params: CopyTradeParams = {
+      coin: position.coin,
+      side: parseFloat(position.szi) > 0 ? 'A' : 'B',
+      size,
+      orderType: 'Market',
+      reduceOnly: true,
+      leverage: Number(position.leverage.value),
+      isCross: position.leverage.type === 'cross',
+    };
+
+    try {
+      const meta = await this.client.getAssetMeta(position.coin);
+      let rounded = roundSize(Math.min(parseFloat(size), held), meta.szDecimals, 'down');
+      if (parseFloat(rounded) <= 0) {
+        rounded = roundSize(held, meta.szDecimals, 'down');
+      }
+      const reduce = { ...params, size: rounded };
+
+      const placed = await this.placeTracked(reduce, this.takerRequest(reduce, price, 'market', meta));
+      return this.settle(
+        { params: reduce, meta, requestedSize: size, adjustments: [] },
+        price,
+        'market',
+        placed
+      );
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Reduce-only safety order failed', {
+        ...formattedError,
+        params,
+      });
+
+      return {
+        success: false,
+        error: formattedError.message,
+        params,
+        strategy: 'market',
+        requestedPx: price,
+      };
+    }
+  }
+
+  /**
+   * Execute several trades as one signed batch, e.g. both legs of a flip or
+   * every order of a reconciliation pass
+   * Each trade is sized and checked as if the ones before it had filled, matching
+   * the order the exchange processes them in. Post-only trades need to rest, so
+   * a batch containing one is executed a trade at a time instead
+   */
+  async executeBatch(
+    trades: Array<{ params: CopyTradeParams; price: string }>,
+    account: UserState,
+    exposure: ExposureBook
+  ): Promise<TradeResult[]> {
+    const strategies = trades.map(({ params }) => this.strategyFor(params.coin));
+    // Size each trade adds to its coin ahead of the next trade's checks
+    const pendingSize: Record<string, number> = {};
+
+    if (trades.length === 1 || strategies.includes('post_only')) {
+      const results: TradeResult[] = [];
+      for (const [index, { params, price }] of trades.entries()) {
+        const result = await this.executeOne(
+          params,
+          price,
+          account,
+          exposure,
+          strategies[index],
+          pendingSize[params.coin] ?? 0
+        );
+        if (result.success) {
+          const filled = parseFloat(result.filledSz ?? result.params.size);
+          pendingSize[params.coin] =
+            (pendingSize[params.coin] ?? 0) + (params.side === 'B' ? 1 : -1) * filled;
+        }
+        results.push(result);
+      }
+      return results;
+    }
+
+    const results: TradeResult[] = new Array(trades.length);
+    const batch: Array<{
+      index: number;
+      prepared: PreparedTrade;
+      request: OrderRequest;
+      plannedNotional: number;
+    }> = [];
+
+    for (const [index, { params: requested, price }] of trades.entries()) {
+      const prepared = await this.prepare(
+        requested,
+        price,
+        account,
+        exposure,
+        strategies[index],
+        pendingSize[requested.coin] ?? 0
+      );
+      if ('success' in prepared) {
+        results[index] = prepared;
+        continue;
+      }
+
+      const { params, meta } = prepared;
+      const signedSize = (params.side === 'B' ? 1 : -1) * parseFloat(params.size);
+      const plannedNotional = signedSize * parseFloat(price);
+      pendingSize[params.coin] = (pendingSize[params.coin] ?? 0) + signedSize;
+      recordExposure(exposure, params.coin, plannedNotional);
+
+      batch.push({
+        index,
+        prepared,
+        request: this.takerRequest(params, price, strategies[index], meta),
+        plannedNotional,
+      });
+    }
+
+    // The planned notional comes back out; settle() records what actually filled
+    for (const { prepared, plannedNotional } of batch) {
+      recordExposure(exposure, prepared.params.coin, -plannedNotional);
+    }
+    if (batch.length === 0) {
+      return results;
+    }
+
+    let placements: BatchOrderResult[];
+    try {
+      placements = await this.placeBatchWithRetry(batch.map(({ request }) => request));
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Order batch failed after retries', {
+        ...formattedError,
+        count: batch.length,
+      });
+      for (const { index, prepared } of batch) {
+        results[index] = {
+          success: false,
+          error: formattedError.message,
+          params: prepared.params,
+          strategy: strategies[index],
+          requestedPx: trades[index].price,
+        };
+      }
+      return results;
+    }
+
+    await Promise.all(
+      batch.map(async ({ index, prepared, request }, i) => {
+        const placement = placements[i];
+        const { price } = trades[index];
+
+        if ('error' in placement) {
+          logger.warn('Batched order rejected', {
+            coin: request.coin,
+            cloid: request.cloid,
+            error: placement.error,
+          });
+          results[index] = {
+            success: false,
+            error: `Order rejected: ${placement.error}`,
+            params: prepared.params,
+            strategy: strategies[index],
+            requestedPx: price,
+          };
+          return;
+        }
+
+        const placed =
+          placement.status === 'resting' ? await this.track(request, placement) : placement;
+        results[index] = this.settle(prepared, price, strategies[index], placed, exposure);
+      })
+    );
+
+    return results;
+  }
+
+  /**
+   * Fit a trade to the asset's precision, the size, exposure and liquidation
+   * limits, validate it and set leverage for opens
+   * Returns the failed result when the trade can't go ahead. `pendingSize` is
+   * what orders queued ahead of it in a batch add to the coin's position
+   */
+  private async prepare(
+    requestedParams: CopyTradeParams,
+    price: string,
+    account: UserState,
+    exposure: ExposureBook,
+    strategy: ExecutionStrategy,
+    pendingSize = 0
+  ): Promise<PreparedTrade | TradeResult> {
+    const ourEquity = parseFloat(account.equity.accountValue);
+
+    // Round size and cap leverage to what the exchange accepts for this asset
+    let meta: AssetMeta;
+    try {
+      meta = await this.client.getAssetMeta(requestedParams.coin);
+    } catch (error) {
+      const formattedError = ErrorHandler.formatError(error);
+      logger.error('Failed to load asset metadata for trade', {
+        ...formattedError,
+        params: requestedParams,
+      });
+      return {
+        success: false,
+        error: formattedError.message,
+        params: requestedParams,
+        strategy,
+        requestedPx: price,
+      };
+    }
+    let params = this.applyAssetLimits(requestedParams, meta);
+
+    if (parseFloat(params.size) <= 0) {
+      logger.warn('Trade size rounds to zero, skipping', {
+        requestedSize: requestedParams.size,
+        szDecimals: meta.szDecimals,
+        coin: params.coin,
+      });
+      return {
+        success: false,
+        error: `Size ${requestedParams.size} rounds to zero at ${meta.szDecimals} decimals`,
+        params,
+        strategy,
+        requestedPx: price,
+      };
+    }
+
+    const adjustments: string[] = [];
+    if (params.size !== requestedParams.size) {
+      adjustments.push(`rounded to ${meta.szDecimals} decimals`);
+    }
+
+    // Shrink opens to the per-order notional cap instead of failing validation
+    if (!params.reduceOnly) {
+      const size = parseFloat(params.size);
+      const cappedSize = capPositionSize(size, parseFloat(price), ourEquity, params.coin);
+      if (cappedSize < size) {
+        params = { ...params, size: roundSize(cappedSize, meta.szDecimals, 'down') };
+        adjustments.push(`capped to ${config.MAX_POSITION_SIZE_PERCENT}% of equity`);
+      }
+    }
+
+    // Scale orders that add exposure down to fit the portfolio caps
+    if (!params.reduceOnly) {
+      const limit = getExposureLimit(params, ourEquity, exposure);
+      const maxSize = limit.maxNotional / parseFloat(price);
+
+      if (parseFloat(params.size) > maxSize) {
+        const scaledSize = roundSize(maxSize, meta.szDecimals, 'down');
+        logger.warn('Order scaled down to fit exposure limits', {
+          coin: params.coin,
+          requestedSize: params.size,
+          scaledSize,
+          limitedBy: limit.limitedBy,
+          maxNotional: limit.maxNotional,
+        });
+
+        if (parseFloat(scaledSize) <= 0) {
+          return {
+            success: false,
+            error: `No room left under ${limit.limitedBy} limit`,
+            params,
+            strategy,
+            requestedPx: price,
+          };
+        }
+        params = { ...params, size: scaledSize };
+        adjustments.push(`scaled to fit ${limit.limitedBy} limit`);
+      }
+    }
+
+    // Keep our predicted liquidation price outside the configured buffer
+    if (!params.reduceOnly) {
+      let safeSize: string;
+      try {
+        safeSize = this.liquidationGuard.maxSafeSize(
+          params,
+          price,
+          meta,
+          account,
+          pendingSize
+        );
+      } catch (error) {
+        const formattedError = ErrorHandler.formatError(error);
+        logger.error('Failed to check liquidation distance', {
+          ...formattedError,
+          params,
+        });
+        return {
+          success: false,
+          error: formattedError.message,
+          params,
+          strategy,
+          requestedPx: price,
+        };
+      }
+
+      if (parseFloat(safeSize) <= 0) {
+        return {
+          success: false,
+          error: `Order would leave us within ${config.LIQUIDATION_BUFFER_PERCENT}% of liquidation`,
+          params,
+          strategy,
+          requestedPx: price,
+        };
+      }
+      if (safeSize !== params.size) {
+        params = { ...params, size: safeSize };
+        adjustments.push(`reduced to stay ${config.LIQUIDATION_BUFFER_PERCENT}% from liquidation`);
+      }
+    }
+
+    // Validate trade parameters
+    const validation = validateTradeParams(params, price, ourEquity);
+    if (!validation.valid) {
+      const error = new ValidationError(validation.reason || 'Invalid trade parameters', {
+        params,
+        price,
+        ourEquity,
+      });
+      logger.warn('Trade validation failed', ErrorHandler.formatError(error));
+      return {
+        success: false,
+        error: error.message,
+        params,
+        strategy,
+        requestedPx: price,
+      };
+    }
+
+    // Opens need the coin's leverage and margin mode in place first
+    if (!params.reduceOnly) {
+      try {
+        const applied = await this.leverageManager.ensure(
+          params.coin,
+          params.leverage,
+          params.isCross
+        );
+        params = { ...params, leverage: applied.leverage, isCross: applied.isCross };
+      } catch (error) {
+        const formattedError = ErrorHandler.formatError(error);
+        logger.error('Failed to set leverage for trade', {
+          ...formattedError,
+          params,
+        });
+        return {
+          success: false,
+          error: formattedError.message,
+          params,
+          strategy,
+          requestedPx: price,
+        };
+      }
+    }
+
+    return { params, meta, requestedSize: requestedParams.size, adjustments };
+  }
+
+  /**
+   * Turn a placed order into the trade result and record its filled notional
+   */
+  private settle(
+    prepared: PreparedTrade,
+    price: string,
+    strategy: ExecutionStrategy,
+    placed: PlacedOrder,
+    exposure?: ExposureBook
+  ): TradeResult {
+    const { params } = prepared;
+
+    if (placed.filledSz !== undefined && parseFloat(placed.filledSz) <= 0) {
+      return {
+        success: false,
+        orderId: placed.orderId,
+        error: 'Order left the book without filling',
+        params,
+        strategy,
+        requestedPx: price,
+      };
+    }
+
+    const result = this.buildResult(params, price, strategy, placed, {
+      requestedSize: prepared.requestedSize,
+      adjustments: prepared.adjustments,
+    });
+
+    if (exposure) {
+      const filled = parseFloat(placed.filledSz ?? params.size);
+      const filledPx = parseFloat(placed.avgPx ?? price);
+      recordExposure(exposure, params.coin, (params.side === 'B' ? 1 : -1) * filled * filledPx);
+    }
+
+    return result;
+  }
+
+  /**
+   * Rest a post-only order at the best bid (buy) or ask (sell) and chase the
+   * book until POST_ONLY_TIMEOUT_MS, then cross the spread with an IOC for
+   * whatever hasn't filled
+   */
+  private async executePostOnly(
+    params: CopyTradeParams,
+    price: string,
+    meta: AssetMeta
+  ): Promise<PlacedOrder> {
+    const makerPx = await this.makerPrice(params, price, meta);
+    const request = this.orderRequest(params, params.size, makerPx, 'Alo', 'Limit');
+
+    let resting: PlacedOrder;
+    try {
+      resting = await this.placeWithRetry(params, request);
+    } catch (error) {
+      if (error instanceof TradingError && !error.retryable) {
+        // ALO rejected because it would cross; take liquidity instead
+        logger.info('Post-only order rejected, falling back to IOC', {
+          coin: params.coin,
+          error: error.message,
+        });
+        return this.placeIocFallback(params, params.size, price, meta);
+      }
+      throw error;
+    }
+
+    if (resting.status === 'filled') {
+      return { ...resting, avgPx: resting.avgPx ?? makerPx };
+    }
+
+    // The order manager follows the book and cancels the maker order once the timeout expires
+    const maker = await this.orderManager.chase(request, resting, config.POST_ONLY_TIMEOUT_MS);
+    const makerFilled = parseFloat(maker.filledSz);
+    const makerAvgPx = maker.avgPx ?? makerPx;
+    const remaining = roundSize(
+      parseFloat(params.size) - makerFilled,
+      meta.szDecimals,
+      params.reduceOnly ? 'down' : 'nearest'
+    );
+
+    if (parseFloat(remaining) <= 0) {
+      return {
+        orderId: maker.orderId,
+        status: 'filled',
+        filledSz: maker.filledSz,
+        avgPx: makerAvgPx,
+      };
+    }
+
+    logger.info('Post-only order timed out, falling back to IOC', {
+      coin: params.coin,
+      orderId: maker.orderId,
+      state: maker.state,
+      makerFilled,
+      remaining,
+    });
+
+    const taker = await this.placeIocFallback(params, remaining, price, meta);
+
+    // Combine maker and taker fills into one average price
+    const takerFilled = parseFloat(taker.filledSz ?? '0');
+    const takerPx = parseFloat(taker.avgPx ?? makerAvgPx);
+    const totalFilled = makerFilled + takerFilled;
+    const avgPx =
+      totalFilled > 0
+        ? (makerFilled * parseFloat(makerAvgPx) + takerFilled * takerPx) / totalFilled
+        : parseFloat(makerAvgPx);
+
+    return {
+      orderId: taker.orderId,
+      status: 'filled',
+      filledSz: removeTrailingZeros(totalFilled.toFixed(8)),
+      avgPx: roundPrice(avgPx, meta.szDecimals),
+    };
+  }
+
+  /**
+   * Best bid for a buy or best ask for a sell
+   * Falls back to the reference price when the book can't be read
+   */
+  private async makerPrice(
+    params: CopyTradeParams,
+    price: string,
+    meta: AssetMeta
+  ): Promise<string> {
+    try {
+      const book = await this.client.getTopOfBook(params.coin);
+      return roundPrice(parseFloat(params.side === 'B' ? book.bid : book.ask), meta.szDecimals);
+    } catch (error) {
+      logger.warn('Failed to read order book, posting at the reference price', {
+        coin: params.coin,
+        error: ErrorHandler.getErrorMessage(error),
+      });
+      return roundPrice(parseFloat(price), meta.szDecimals);
+    }
+  }
+
+  /**
+   * IOC limit order used when post-only execution gives up
+   */
+  private placeIocFallback(
+    params: CopyTradeParams,
+    size: string,
+    price: string,
+    meta: AssetMeta
+  ): Promise<PlacedOrder> {
+    const request = this.orderRequest(
+      params,
+      size,
+      this.limitPrice(params, price, config.MAX_SLIPPAGE_BPS, meta),
+      'Ioc',
+      'Limit'
+    );
+    return this.placeWithRetry(params, {
+      ...request,
+      cloid: params.cloid && deriveCloid(`${params.cloid}:ioc`),
+    });
+  }
+
+  /**
+   * Place an order and, if any of it rests, follow it until it leaves the book
+   * so the result holds what actually filled
+   */
+  private async placeTracked(params: CopyTradeParams, request: OrderRequest): Promise<PlacedOrder> {
+    const placed = await this.placeWithRetry(params, request);
+    if (placed.status === 'filled') {
+      return placed;
+    }
+
+    return this.track(request, placed);
+  }
+
+  /**
+   * Follow a resting order until it leaves the book
+   */
+  private async track(request: OrderRequest, placed: PlacedOrder): Promise<PlacedOrder> {
+    const outcome = await this.orderManager.manage(request, placed);
+    return {
+      orderId: outcome.orderId,
+      status: 'filled',
+      filledSz: outcome.filledSz,
+      avgPx: outcome.avgPx,
+    };
+  }
+
+  /**
+   * Strategy for a coin: its override, then EXECUTION_STRATEGY
+   */
+  private strategyFor(coin: string): ExecutionStrategy {
+    return getAssetOverride(coin).executionStrategy ?? config.EXECUTION_STRATEGY;
+  }
+
+  /**
+   * IOC order for the market and limit strategies
+   */
+  private takerRequest(
+    params: CopyTradeParams,
+    price: string,
+    strategy: ExecutionStrategy,
+    meta: AssetMeta
+  ): OrderRequest {
+    const slippageBps = strategy === 'market' ? MARKET_SLIPPAGE_BPS : config.MAX_SLIPPAGE_BPS;
+    return this.orderRequest(
+      params,
+      params.size,
+      this.limitPrice(params, price, slippageBps, meta),
+      'Ioc',
+      strategy === 'market' ? 'Market' : 'Limit'
+    );
+  }
+
+  /**
+   * Order for part or all of a copy trade
+   */
+  private orderRequest(
+    params: CopyTradeParams,
+    size: string,
+    limitPx: string,
+    tif: TimeInForce,
+    orderType: CopyTradeParams['orderType']
+  ): OrderRequest {
+    return {
+      coin: params.coin,
+      side: params.side,
+      sz: size,
+      limitPx,
+      orderType,
+      tif,
+      reduceOnly: params.reduceOnly,
+      cloid: params.cloid,
+    };
+  }
+
+  /**
+   * Place an order, retrying transient failures
+   * A retry first looks the cloid up, so an order that landed before its
+   * response was lost is not sent twice
+   */
+  private placeWithRetry(params: CopyTradeParams, request: OrderRequest): Promise<PlacedOrder> {
+    let attempted = false;
+
+    return retryWithBackoff(
+      async () => {
+        if (attempted && request.cloid) {
+          const existing = await this.findPlaced(request.cloid);
+          if (existing) {
+            return existing;
+          }
+        }
+        attempted = true;
+        return await this.client.placeOrder(request);
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        maxDelay: 10000,
+        backoffMultiplier: 2,
+      },
+      (error, attempt) => {
+        logger.warn(`Trade execution attempt ${attempt}/3 failed`, {
+          error: ErrorHandler.formatError(error),
+          params,
+          tif: request.tif,
+        });
+      }
+    );
+  }
+
+  /**
+   * Place a batch of orders in one request, retrying transient failures
+   * Retries resend only the orders whose cloid is not already on the exchange;
+   * orders the exchange rejected keep their error
+   */
+  private async placeBatchWithRetry(requests: OrderRequest[]): Promise<BatchOrderResult[]> {
+    const results: Array<BatchOrderResult | undefined> = new Array(requests.length);
+
+    await retryWithBackoff(
+      async () => {
+        const pending: number[] = [];
+        for (const [index, request] of requests.entries()) {
+          if (results[index]) continue;
+          const existing = request.cloid ? await this.findPlaced(request.cloid) : undefined;
+          if (existing) {
+            results[index] = existing;
+          } else {
+            pending.push(index);
+          }
+        }
+        if (pending.length === 0) {
+          return;
+        }
+
+        const placed = await this.client.placeOrders(pending.map((index) => requests[index]));
+        pending.forEach((index, i) => {
+          results[index] = placed[i];
+        });
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        maxDelay: 10000,
+        backoffMultiplier: 2,
+      },
+      (error, attempt) => {
+        logger.warn(`Order batch attempt ${attempt}/3 failed`, {
+          error: ErrorHandler.formatError(error),
+          coins: requests.map((request) => request.coin),
+        });
+      }
+    );
+
+    return results as BatchOrderResult[];
+  }
+
+  /**
+   * Our order with this cloid, if the exchange already has it
+   * Only orders still resting or partly filled count; anything else is sent again
+   */
+  private async findPlaced(cloid: string): Promise<PlacedOrder | undefined> {
+    let status: OrderStatusInfo;
+    try {
+      status = await this.client.getOrderStatus(cloid);
+    } catch (error) {
+      // Unknown orders are non-retryable; lookup failures fail this attempt
+      if (error instanceof TradingError && !error.retryable) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let placed: PlacedOrder | undefined;
+    if (status.status === 'open') {
+      placed = { orderId: status.orderId, status: 'resting' };
+    } else {
+      const filled = parseFloat(status.origSz) - parseFloat(status.remainingSz);
+      if (filled > 0) {
+        placed = {
+          orderId: status.orderId,
+          status: 'filled',
+          filledSz: removeTrailingZeros(filled.toFixed(8)),
+        };
+      }
+    }
+
+    if (placed) {
+      logger.info('Order already on the exchange, not resending', {
+        cloid,
+        orderId: status.orderId,
+        status: status.status,
+      });
+    }
+    return placed;
+  }
+
+  /**
+   * Limit price bounded by a slippage band around the reference price
+   */
+  private limitPrice(
+    params: CopyTradeParams,
+    price: string,
+    slippageBps: number,
+    meta: AssetMeta
+  ): string {
+    const direction = params.side === 'B' ? 1 : -1;
+    return roundPrice(parseFloat(price) * (1 + (direction * slippageBps) / 10000), meta.szDecimals);
+  }
+
+  /**
+   * Round size to the asset's decimals and cap leverage to its maximum
+   * and any per-coin override
+   * Reduce-only sizes round down so they never exceed our position
+   */
+  private applyAssetLimits(params: CopyTradeParams, meta: AssetMeta): CopyTradeParams {
+    const size = roundSize(
+      parseFloat(params.size),
+      meta.szDecimals,
+      params.reduceOnly ? 'down' : 'nearest'
+    );
+    const leverage = capLeverage(params.leverage, meta.maxLeverage, params.coin);
+
+    if (size !== params.size || leverage !== params.leverage) {
+      logger.debug('Applied asset precision and leverage limits', {
+        coin: params.coin,
+        size: { requested: params.size, rounded: size },
+        leverage: { requested: params.leverage, capped: leverage },
+        szDecimals: meta.szDecimals,
+      });
+    }
+
+    return { ...params, size, leverage };
+  }
+
+  /**
+   * Build the trade result, recording requested vs achieved price and any
+   * size adjustments
+   */
+  private buildResult(
+    params: CopyTradeParams,
+    price: string,
+    strategy: ExecutionStrategy,
+    placed: PlacedOrder,
+    sizing: Pick<TradeResult, 'requestedSize' | 'adjustments'>
+  ): TradeResult {
+    const result: TradeResult = {
+      success: true,
+      orderId: placed.orderId,
+      params,
+      strategy,
+      requestedPx: price,
+      achievedPx: placed.avgPx,
+      filledSz: placed.filledSz,
+      ...sizing,
+    };
+
+    if (placed.avgPx) {
+      const direction = params.side === 'B' ? 1 : -1;
+      const requested = parseFloat(price);
+      const slippage = (direction * (parseFloat(placed.avgPx) - requested)) / requested;
+      result.slippageBps = Number((slippage * 10000).toFixed(2));
+    }
+
+    loggerUtils.logTrade('info', 'Order execution summary', {
+      coin: params.coin,
+      strategy,
+      requestedPx: result.requestedPx,
+      achievedPx: result.achievedPx,
+      filledSz: result.filledSz,
+      slippageBps: result.slippageBps,
+      requestedSize: result.requestedSize,
+      size: params.size,
+      adjustments: result.adjustments,
+    });
+
+    return result;
+  }
+}
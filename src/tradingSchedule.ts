@@ -0,0 +1,187 @@
+import { existsSync, unwatchFile, watchFile } from 'fs';
+import { readFile } from 'fs/promises';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { ErrorHandler } from './utils/errors.js';
+import { sendInfoNotification } from './notifications/telegram.js';
+import type { BlackoutEvent, TimeWindow } from './types.js';
+
+/**
+ * How often the schedule checks for blackout windows starting or ending
+ */
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Trading schedule
+ * Pauses new opens on weekends, inside BLACKOUT_HOURS_UTC and around events in
+ * the blackout calendar file. Closes and reduces are never blocked.
+ */
+export class TradingSchedule {
+  private calendarFile: string;
+  private events: BlackoutEvent[] = [];
+  private intervalId?: ReturnType<typeof setInterval>;
+  private activeBlackout?: string;
+  private windowSkips = 0;
+  private totalSkips = 0;
+
+  constructor(calendarFile: string) {
+    this.calendarFile = calendarFile;
+  }
+
+  /**
+   * Load the calendar and watch for blackout windows starting and ending
+   * The calendar file is reloaded whenever it changes
+   */
+  async start(): Promise<void> {
+    if (this.calendarFile) {
+      await this.load();
+      watchFile(this.calendarFile, { interval: CHECK_INTERVAL_MS }, () => {
+        void this.load();
+      });
+    }
+
+    this.check();
+    this.intervalId = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    if (this.calendarFile) {
+      unwatchFile(this.calendarFile);
+    }
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  /**
+   * Why new opens are paused right now, if they are
+   */
+  getBlackoutReason(now = new Date()): string | undefined {
+    const day = now.getUTCDay();
+    if (config.BLACKOUT_WEEKENDS && (day === 0 || day === 6)) {
+      return 'weekend';
+    }
+
+    const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+    const window = config.BLACKOUT_HOURS_UTC.find((w) => inWindow(w, minutes));
+    if (window) {
+      return `blackout hours ${formatMinutes(window.start)}-${formatMinutes(window.end)} UTC`;
+    }
+
+    const time = now.getTime();
+    for (const event of this.events) {
+      const eventTime = Date.parse(event.time);
+      const before = (event.beforeMinutes ?? config.BLACKOUT_EVENT_MINUTES) * 60_000;
+      const after = (event.afterMinutes ?? config.BLACKOUT_EVENT_MINUTES) * 60_000;
+      if (time >= eventTime - before && time < eventTime + after) {
+        return `${event.name} at ${event.time}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Count an open skipped for a blackout
+   */
+  recordSkippedOpen(): void {
+    this.windowSkips++;
+    this.totalSkips++;
+  }
+
+  /**
+   * Opens skipped for blackouts since startup
+   */
+  getSkippedOpens(): number {
+    return this.totalSkips;
+  }
+
+  /**
+   * Log and notify when a blackout window starts or ends
+   */
+  private check(): void {
+    const reason = this.getBlackoutReason();
+    if (reason === this.activeBlackout) return;
+
+    if (this.activeBlackout) {
+      logger.info('Blackout ended, new opens resumed', {
+        blackout: this.activeBlackout,
+        skippedOpens: this.windowSkips,
+      });
+      void sendInfoNotification(`Blackout ended: ${this.activeBlackout}`, {
+        skippedOpens: this.windowSkips,
+      });
+    }
+
+    this.activeBlackout = reason;
+    this.windowSkips = 0;
+
+    if (reason) {
+      logger.info('Blackout started, new opens paused', { blackout: reason });
+      void sendInfoNotification(`Blackout started: ${reason}`, {
+        note: 'Closes and reduces are still copied',
+      });
+    }
+  }
+
+  /**
+   * Read events from the calendar file
+   * A missing or invalid file leaves the previous events in place
+   */
+  private async load(): Promise<void> {
+    if (!existsSync(this.calendarFile)) {
+      logger.warn('Blackout calendar file not found', { calendarFile: this.calendarFile });
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(await readFile(this.calendarFile, 'utf8')) as unknown;
+      if (!Array.isArray(parsed)) {
+        throw new Error('Calendar must be a JSON array of events');
+      }
+
+      const events = (parsed as BlackoutEvent[]).filter((event) => {
+        const valid = typeof event?.name === 'string' && !isNaN(Date.parse(event?.time));
+        if (!valid) {
+          logger.warn('Ignoring invalid blackout calendar event', { event });
+        }
+        return valid;
+      });
+
+      this.events = events;
+      logger.info('Blackout calendar loaded', {
+        calendarFile: this.calendarFile,
+        events: events.length,
+      });
+    } catch (error) {
+      logger.warn('Failed to read blackout calendar', {
+        calendarFile: this.calendarFile,
+        error: ErrorHandler.getErrorMessage(error),
+      });
+    }
+  }
+}
+
+/**
+ * Whether a minute of the day falls inside a window
+ */
+function inWindow(window: TimeWindow, minutes: number): boolean {
+  if (window.start <= window.end) {
+    return minutes >= window.start && minutes < window.end;
+  }
+  // Wraps past midnight
+  return minutes >= window.start || minutes < window.end;
+}
+
+/**
+ * Minutes since midnight as HH:MM
+ */
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const m = (minutes % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+}
@@ -6,6 +6,14 @@ export type Side = 'A' | 'B'; // A = Ask (sell), B = Bid (buy)
 export type OrderType = 'Limit' | 'Market';
 export type TimeInForce = 'Gtc' | 'Ioc' | 'Alo';
 
+/**
+ * How copy orders are executed
+ * - market: IOC with a wide price band
+ * - ioc: IOC limit at the reference price +/- MAX_SLIPPAGE_BPS
+ * - post_only: ALO at the reference price, falling back to ioc after a timeout
+ */
+export type ExecutionStrategy = 'market' | 'ioc' | 'post_only';
+
 /**
  * Position direction
  */
@@ -13,8 +21,34 @@ export type PositionSide = 'Long' | 'Short';
 
 /**
  * Trade action type
+ * A flip closes one side and opens the other in a single fill
+ */
+export type TradeAction = 'open' | 'reduce' | 'close' | 'flip';
+
+/**
+ * Fill directions emitted by Hyperliquid
+ * Perps use Open/Close Long/Short and "Long > Short" / "Short > Long" for flips;
+ * spot uses Buy/Sell. Anything else is rejected when the action is determined.
  */
-export type TradeAction = 'open' | 'reduce' | 'close';
+export type FillDirection =
+  | 'Open Long'
+  | 'Close Long'
+  | 'Open Short'
+  | 'Close Short'
+  | 'Long > Short'
+  | 'Short > Long'
+  | 'Buy'
+  | 'Sell';
+
+/**
+ * Leader wallet being copied, with its share of our capital
+ */
+export interface LeaderConfig {
+  address: string;
+  weight: number; // Normalized capital allocation (all leaders sum to 1)
+  sizeMultiplier: number; // Applied on top of SIZE_MULTIPLIER
+  blockedAssets: string[];
+}
 
 /**
  * Hyperliquid fill event from WebSocket subscription
@@ -26,14 +60,26 @@ export interface FillEvent {
   side: Side;
   time: number;
   startPosition: string;
-  dir: 'Open Long' | 'Close Long' | 'Open Short' | 'Close Short';
+  dir: FillDirection;
   closedPnl: string;
   hash: string;
   oid: number;
+  tid?: number; // Unique trade ID
   crossed: boolean;
   fee: string;
 }
 
+/**
+ * Exchange metadata for a tradable asset
+ */
+export interface AssetMeta {
+  name: string;
+  index: number; // Asset index used in exchange actions
+  szDecimals: number; // Size decimals allowed for orders
+  maxLeverage: number;
+  onlyIsolated: boolean;
+}
+
 /**
  * Position information
  */
@@ -41,8 +87,11 @@ export interface Position {
   coin: string;
   szi: string; // Position size (signed integer string)
   entryPx: string;
+  positionValue: string; // Absolute notional in USD at mark price
   leverage: {
-    value: string;
+    type: 'cross' | 'isolated';
+    value: number;
+    rawUsd?: string; // Isolated margin
   };
   liquidationPx: string;
   marginUsed: string;
@@ -62,6 +111,14 @@ export interface AccountEquity {
   crossMarginSummary: Record<string, unknown>;
 }
 
+/**
+ * Equity and positions of an account from one clearinghouseState snapshot
+ */
+export interface UserState {
+  equity: AccountEquity;
+  positions: Position[];
+}
+
 /**
  * Calculated trade parameters for copying
  */
@@ -72,6 +129,218 @@ export interface CopyTradeParams {
   orderType: OrderType;
   reduceOnly: boolean;
   leverage: number;
+  isCross: boolean; // Margin mode to use when opening
+  cloid?: string; // Client order ID, derived from the source fill
+}
+
+/**
+ * Order sent to the exchange
+ */
+export interface OrderRequest {
+  coin: string;
+  side: Side;
+  sz: string; // Size (no trailing zeros)
+  limitPx?: string; // Limit price, required by Hyperliquid even for "market" orders
+  orderType: 'Limit' | 'Market';
+  tif?: TimeInForce; // Defaults to Gtc
+  reduceOnly: boolean;
+  cloid?: string; // Client order ID: 16 bytes as 0x-prefixed hex
+}
+
+/**
+ * Replacement for a resting order, found by order ID or client order ID
+ */
+export interface ModifyRequest {
+  orderId: string;
+  order: OrderRequest;
+}
+
+/**
+ * Reduce-only take-profit or stop-loss trigger order
+ */
+export interface TriggerOrderRequest {
+  coin: string;
+  side: Side;
+  sz: string;
+  triggerPx: string;
+  tpsl: TpSl;
+}
+
+/**
+ * Resting reduce-only take-profit or stop-loss trigger order
+ */
+export interface TriggerOrder extends TriggerOrderRequest {
+  orderId: string;
+}
+
+/**
+ * Order accepted by the exchange
+ */
+export interface PlacedOrder {
+  orderId: string;
+  status: 'filled' | 'resting';
+  filledSz?: string;
+  avgPx?: string;
+}
+
+/**
+ * One order of a batch: placed, or the exchange's reason for rejecting it
+ */
+export type BatchOrderResult = PlacedOrder | { error: string };
+
+/**
+ * How copied opens are sized
+ * - equityRatio: leader's fill scaled by our equity / their equity
+ * - fixedUsd: FIXED_USD_SIZE notional per open
+ * - fixedFraction: FIXED_FRACTION_PERCENT of our equity per open
+ * - leverageMatched: match the leader's position-to-equity ratio
+ * - volatilityTarget: one ATR move costs VOLATILITY_TARGET_PERCENT of our equity
+ */
+export type SizingStrategyName =
+  | 'equityRatio'
+  | 'fixedUsd'
+  | 'fixedFraction'
+  | 'leverageMatched'
+  | 'volatilityTarget';
+
+/**
+ * How stop-loss and take-profit distances are measured
+ * - percent: % from entry price
+ * - atr: multiple of the average true range
+ * - usd: fixed USD profit or loss on the whole position
+ */
+export type ProtectionMode = 'off' | 'percent' | 'atr' | 'usd';
+
+/**
+ * Market category of a coin
+ * - perp: core perpetuals
+ * - spot: spot pairs (e.g. PURR/USDC or @107)
+ * - hip3: builder-deployed perpetuals (dex:COIN)
+ */
+export type MarketType = 'perp' | 'spot' | 'hip3';
+
+/**
+ * Which of the leader's directions are copied
+ * - both: copy longs and shorts as they are
+ * - long_only / short_only: skip opens in the other direction
+ * - inverse: open the opposite side of the leader
+ */
+export type DirectionMode = 'both' | 'long_only' | 'short_only' | 'inverse';
+
+/**
+ * Per-coin settings from ASSET_OVERRIDES
+ */
+export interface AssetOverride {
+  direction?: DirectionMode;
+  sizeMultiplier?: number;
+  maxLeverage?: number;
+  maxNotional?: number; // Max position notional in USD
+  executionStrategy?: ExecutionStrategy;
+}
+
+/**
+ * Market data for a coin from metaAndAssetCtxs
+ */
+export interface AssetContext {
+  coin: string;
+  markPx: number;
+  dayNtlVlm: number; // 24h notional volume in USD
+  openInterestUsd: number;
+}
+
+/**
+ * Best bid and ask for a coin
+ */
+export interface TopOfBook {
+  bid: string;
+  ask: string;
+}
+
+/**
+ * UTC time-of-day window in minutes since midnight
+ * Windows ending before they start wrap past midnight
+ */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Scheduled event from the blackout calendar file
+ */
+export interface BlackoutEvent {
+  name: string;
+  time: string; // ISO 8601
+  beforeMinutes?: number; // Defaults to BLACKOUT_EVENT_MINUTES
+  afterMinutes?: number;
+}
+
+/**
+ * Take-profit or stop-loss trigger
+ */
+export type TpSl = 'tp' | 'sl';
+
+/**
+ * Candle interval accepted by candleSnapshot
+ */
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+/**
+ * OHLC candle
+ */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Status of an existing order
+ */
+export interface OrderStatusInfo {
+  orderId: string;
+  status: string; // open, filled, canceled, rejected, ...
+  origSz: string;
+  remainingSz: string;
+}
+
+/**
+ * Status change of one of our orders, from the orderUpdates feed
+ */
+export interface OrderUpdate {
+  orderId: string;
+  coin: string;
+  side: Side;
+  status: string; // open, filled, canceled, rejected, marginCanceled, ...
+  origSz: string;
+  remainingSz: string;
+  limitPx: string;
+  timestamp: number;
+}
+
+/**
+ * Lifecycle of a resting order we placed
+ * open -> partiallyFilled -> filled, or -> canceling -> canceled; rejected if the
+ * exchange refuses it. Re-pricing replaces the order and keeps the state
+ */
+export type OrderState =
+  | 'open'
+  | 'partiallyFilled'
+  | 'canceling'
+  | 'filled'
+  | 'canceled'
+  | 'rejected';
+
+/**
+ * What a managed order achieved once it left the book
+ */
+export interface OrderOutcome {
+  orderId: string; // Last order placed, after any re-pricing
+  state: Extract<OrderState, 'filled' | 'canceled' | 'rejected'>;
+  filledSz: string; // Across every re-priced order
+  avgPx?: string; // Unset when nothing filled
 }
 
 /**
@@ -82,6 +351,24 @@ export interface TradeResult {
   orderId?: string;
   error?: string;
   params: CopyTradeParams;
+  strategy?: ExecutionStrategy;
+  requestedPx?: string; // Reference price (leader fill or mid)
+  achievedPx?: string; // Average fill price
+  filledSz?: string;
+  slippageBps?: number; // Positive = worse than requested
+  requestedSize?: string; // Size before rounding and risk caps
+  adjustments?: string[]; // Why the size changed, in order applied
+}
+
+/**
+ * Result of copying a single leader fill, as recorded in the trade journal
+ */
+export interface FillOutcome {
+  status: 'executed' | 'failed' | 'skipped';
+  action?: TradeAction;
+  orderId?: string;
+  params?: CopyTradeParams;
+  error?: string;
 }
 
 /**
@@ -98,4 +385,6 @@ export interface HealthCheckResult {
     targetSize: string;
     difference: string;
   }>;
+  /** Opens skipped inside trading blackouts since startup */
+  blackoutSkippedOpens?: number;
 }
@@ -0,0 +1,17 @@
+import { keccak256, toUtf8Bytes } from 'ethers';
+
+/**
+ * Client order IDs
+ * Hyperliquid accepts a 16-byte hex cloid on each order. Deriving it from what
+ * the order copies (a leader fill, a reconciliation pass) ties every order to its
+ * source, and lets a retry find an order that already landed instead of sending
+ * it twice
+ */
+
+/**
+ * Deterministic cloid for a source
+ * Callers append a suffix for each further order sent for the same source
+ */
+export function deriveCloid(source: string): string {
+  return keccak256(toUtf8Bytes(source)).slice(0, 34);
+}
@@ -265,8 +265,10 @@ export async function retryWithBackoff<T>(
         onRetry(error, attempt);
       }
 
-      // Wait before retry with exponential backoff
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      // Wait before retry with exponential backoff, or until the rate limit frees up
+      const retryAfter =
+        error instanceof RateLimitError ? Number(error.context?.retryAfter) || 0 : 0;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(delay, retryAfter)));
       delay = Math.min(delay * config.backoffMultiplier, config.maxDelay);
     }
   }
@@ -0,0 +1,125 @@
+import { config } from '../config.js';
+import { getAssetOverride } from './risk.js';
+import type { CopyTradeParams, Position } from '../types.js';
+
+/**
+ * Portfolio exposure limits
+ * Tracks our book's notional by coin and checks new orders against gross,
+ * net, per-coin and per-cluster caps, all expressed as % of equity
+ */
+
+/**
+ * Our current book in USD notional
+ */
+export interface ExposureBook {
+  coins: Record<string, number>; // Signed notional by coin (short negative)
+  gross: number;
+  net: number;
+}
+
+/**
+ * Largest order notional allowed by the exposure caps, and the cap that bound it
+ */
+export interface ExposureLimit {
+  maxNotional: number;
+  limitedBy?: string;
+}
+
+/**
+ * Build the exposure book from our positions
+ */
+export function buildExposureBook(positions: Position[]): ExposureBook {
+  const book: ExposureBook = { coins: {}, gross: 0, net: 0 };
+
+  for (const position of positions) {
+    const size = parseFloat(position.szi);
+    const value = Math.abs(parseFloat(position.positionValue));
+    if (!size || isNaN(value)) continue;
+    recordExposure(book, position.coin, Math.sign(size) * value);
+  }
+
+  return book;
+}
+
+/**
+ * Add a filled order's signed notional to the book
+ */
+export function recordExposure(book: ExposureBook, coin: string, signedNotional: number): void {
+  const current = book.coins[coin] ?? 0;
+  const updated = current + signedNotional;
+
+  book.gross += Math.abs(updated) - Math.abs(current);
+  book.net += signedNotional;
+  book.coins[coin] = updated;
+}
+
+/**
+ * Clusters containing a coin
+ */
+export function getCoinClusters(coin: string): string[] {
+  return Object.entries(config.COIN_CLUSTERS)
+    .filter(([, cluster]) => cluster.coins.includes(coin))
+    .map(([name]) => name);
+}
+
+/**
+ * Room left under a cap on |current + x| when adding x in `direction`
+ */
+function headroom(cap: number, current: number, direction: number): number {
+  return cap - direction * current;
+}
+
+/**
+ * Largest notional an order can have without breaching any exposure cap
+ * Orders moving a coin towards zero get room from the exposure they remove
+ */
+export function getExposureLimit(
+  params: CopyTradeParams,
+  ourEquity: number,
+  book: ExposureBook
+): ExposureLimit {
+  const direction = params.side === 'B' ? 1 : -1;
+  const current = book.coins[params.coin] ?? 0;
+  const caps: Array<[string, number]> = [];
+
+  // Gross: the rest of the book plus |current + x|
+  const grossCap = (ourEquity * config.MAX_TOTAL_EXPOSURE_PERCENT) / 100;
+  caps.push([
+    'gross exposure',
+    headroom(grossCap - (book.gross - Math.abs(current)), current, direction),
+  ]);
+
+  // Net directional exposure
+  const netCap = (ourEquity * config.MAX_NET_EXPOSURE_PERCENT) / 100;
+  caps.push(['net exposure', headroom(netCap, book.net, direction)]);
+
+  // Per-coin exposure, tightened by the coin's maxNotional override
+  const coinCap = Math.min(
+    (ourEquity * config.MAX_COIN_EXPOSURE_PERCENT) / 100,
+    getAssetOverride(params.coin).maxNotional ?? Infinity
+  );
+  caps.push([`${params.coin} exposure`, headroom(coinCap, current, direction)]);
+
+  // Cluster gross exposure
+  for (const name of getCoinClusters(params.coin)) {
+    const cluster = config.COIN_CLUSTERS[name];
+    const clusterGross = cluster.coins.reduce(
+      (sum, coin) => sum + Math.abs(book.coins[coin] ?? 0),
+      0
+    );
+    const clusterCap = (ourEquity * cluster.maxExposurePercent) / 100;
+    caps.push([
+      `${name} cluster exposure`,
+      headroom(clusterCap - (clusterGross - Math.abs(current)), current, direction),
+    ]);
+  }
+
+  let limit: ExposureLimit = { maxNotional: Infinity };
+  for (const [name, room] of caps) {
+    if (room < limit.maxNotional) {
+      limit = { maxNotional: Math.max(room, 0), limitedBy: name };
+    }
+  }
+
+  return limit;
+}
@@ -0,0 +1,148 @@
+import { logger } from '../logger.js';
+import { removeTrailingZeros } from './risk.js';
+import { TradeJournal } from '../storage/tradeJournal.js';
+import type { FillEvent, LeaderConfig } from '../types.js';
+
+/**
+ * Partial fill coalescing
+ * A single leader order often arrives as many fills sharing one oid. Fills are
+ * grouped by leader, oid, coin and direction for a short window and copied as
+ * one net order.
+ */
+
+interface PendingGroup {
+  leader: LeaderConfig;
+  parts: Map<string, FillEvent>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A coalesced fill with the parts it was merged from
+ */
+export interface PendingFill {
+  leader: LeaderConfig;
+  fill: FillEvent;
+  parts: FillEvent[];
+}
+
+export type FlushHandler = (leader: LeaderConfig, fill: FillEvent, parts: FillEvent[]) => void;
+
+/**
+ * Merge partial fills of one order into a single fill
+ * Size and fees are summed, price is volume-weighted, and startPosition is
+ * taken from the earliest part.
+ */
+export function mergeFills(parts: FillEvent[]): FillEvent {
+  const sorted = [...parts].sort((a, b) => a.time - b.time);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  let totalSize = 0;
+  let notional = 0;
+  let fee = 0;
+  let closedPnl = 0;
+  for (const part of sorted) {
+    const size = parseFloat(part.sz);
+    totalSize += size;
+    notional += size * parseFloat(part.px);
+    fee += parseFloat(part.fee) || 0;
+    closedPnl += parseFloat(part.closedPnl) || 0;
+  }
+
+  return {
+    ...first,
+    sz: removeTrailingZeros(totalSize.toFixed(8)),
+    px: removeTrailingZeros((totalSize > 0 ? notional / totalSize : 0).toFixed(8)),
+    fee: removeTrailingZeros(fee.toFixed(8)),
+    closedPnl: removeTrailingZeros(closedPnl.toFixed(8)),
+    time: last.time,
+  };
+}
+
+/**
+ * Group of a fill: one leader order, coin and direction
+ */
+function groupKey(leader: LeaderConfig, fill: FillEvent): string {
+  return `${leader.address}:${fill.oid}:${fill.coin}:${fill.dir}`;
+}
+
+export class FillAggregator {
+  private windowMs: number;
+  private onFlush: FlushHandler;
+  private groups: Map<string, PendingGroup> = new Map();
+
+  constructor(windowMs: number, onFlush: FlushHandler) {
+    this.windowMs = windowMs;
+    this.onFlush = onFlush;
+  }
+
+  /**
+   * Add a fill to its group, starting the window on the group's first fill
+   */
+  add(leader: LeaderConfig, fill: FillEvent): void {
+    const key = groupKey(leader, fill);
+    const existing = this.groups.get(key);
+
+    if (existing) {
+      // Replayed parts of the same order are only counted once
+      existing.parts.set(TradeJournal.fillKey(fill), fill);
+      return;
+    }
+
+    this.groups.set(key, {
+      leader,
+      parts: new Map([[TradeJournal.fillKey(fill), fill]]),
+      timer: setTimeout(() => this.flush(key), this.windowMs),
+    });
+  }
+
+  /**
+   * Whether a fill is waiting in a pending group
+   */
+  isPending(leader: LeaderConfig, fill: FillEvent): boolean {
+    const group = this.groups.get(groupKey(leader, fill));
+    return group?.parts.has(TradeJournal.fillKey(fill)) ?? false;
+  }
+
+  /**
+   * Drop every pending group without copying it
+   * Returns the groups as merged fills so the caller can record them
+   */
+  discardAll(): PendingFill[] {
+    const discarded: PendingFill[] = [];
+    for (const group of this.groups.values()) {
+      clearTimeout(group.timer);
+      const parts = [...group.parts.values()];
+      discarded.push({ leader: group.leader, fill: mergeFills(parts), parts });
+    }
+    this.groups.clear();
+    return discarded;
+  }
+
+  /**
+   * Emit a group as one merged fill
+   */
+  private flush(key: string): void {
+    const group = this.groups.get(key);
+    if (!group) return;
+
+    clearTimeout(group.timer);
+    this.groups.delete(key);
+
+    const parts = [...group.parts.values()];
+    const merged = mergeFills(parts);
+
+    if (parts.length > 1) {
+      logger.info('Coalesced partial fills', {
+        leader: group.leader.address,
+        coin: merged.coin,
+        oid: merged.oid,
+        parts: parts.length,
+        size: merged.sz,
+        avgPx: merged.px,
+      });
+    }
+
+    this.onFlush(group.leader, merged, parts);
+  }
+}
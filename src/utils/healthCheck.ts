@@ -1,29 +1,33 @@
-import { HyperliquidClientWrapper } from '../hyperliquidClient.js';
+import type { ExchangeAdapter } from '../exchange/exchangeAdapter.js';
 import { logger, loggerUtils } from '../logger.js';
 import { config } from '../config.js';
 import { NetworkError, ErrorHandler } from '../utils/errors.js';
-import type { HealthCheckResult } from '../types.js';
+import { calculateTargetPositions, type LeaderSnapshot } from './risk.js';
+import type { HealthCheckResult, LeaderConfig } from '../types.js';
 
 /**
  * Health check utility
- * Periodically checks our positions vs target positions
+ * Periodically checks our positions vs the weighted sum of leader positions
  */
 
 export class HealthChecker {
-  private client: HyperliquidClientWrapper;
+  private client: ExchangeAdapter;
   private ourAddress: string;
-  private targetAddress: string;
+  private leaders: LeaderConfig[];
   private intervalId?: ReturnType<typeof setInterval>;
   private lastResult?: HealthCheckResult;
+  private getBlackoutSkippedOpens?: () => number;
 
   constructor(
-    client: HyperliquidClientWrapper,
+    client: ExchangeAdapter,
     ourAddress: string,
-    targetAddress: string
+    leaders: LeaderConfig[],
+    getBlackoutSkippedOpens?: () => number
   ) {
     this.client = client;
     this.ourAddress = ourAddress;
-    this.targetAddress = targetAddress;
+    this.leaders = leaders;
+    this.getBlackoutSkippedOpens = getBlackoutSkippedOpens;
   }
 
   /**
@@ -71,30 +75,42 @@ export class HealthChecker {
    */
   private async checkHealth(): Promise<HealthCheckResult> {
     try {
-      const [ourPositions, targetPositions, ourEquityData, targetEquityData] =
-        await Promise.all([
-          this.client.getPositions(this.ourAddress),
-          this.client.getPositions(this.targetAddress),
-          this.client.getAccountEquity(this.ourAddress),
-          this.client.getAccountEquity(this.targetAddress),
-        ]);
-
-      const ourEquity = ourEquityData.accountValue;
-      const targetEquity = targetEquityData.accountValue;
+      const [account, snapshots] = await Promise.all([
+        this.client.getUserState(this.ourAddress),
+        Promise.all(
+          this.leaders.map(async (leader): Promise<LeaderSnapshot> => {
+            const { positions, equity } = await this.client.getUserState(leader.address);
+            return { leader, positions, equity: parseFloat(equity.accountValue) };
+          })
+        ),
+      ]);
+
+      const ourPositions = account.positions;
+      const ourEquity = account.equity.accountValue;
+      const targetPositions = snapshots.flatMap((snapshot) => snapshot.positions);
+      const targetEquity = snapshots
+        .reduce((sum, snapshot) => sum + (snapshot.equity || 0), 0)
+        .toString();
+
+      // Expected size per coin: weighted sum of all leaders' positions
+      const expectedSizes = calculateTargetPositions(snapshots, parseFloat(ourEquity));
 
       // Calculate drift between positions
       const drift: Record<string, { ourSize: string; targetSize: string; difference: string }> = {};
-
-      // Check all target positions
-      for (const targetPos of targetPositions) {
-        const ourPos = ourPositions.find((p) => p.coin === targetPos.coin);
-        const targetSize = parseFloat(targetPos.szi);
+      const coins = new Set([
+        ...Object.keys(expectedSizes),
+        ...ourPositions.map((p) => p.coin),
+      ]);
+
+      for (const coin of coins) {
+        const ourPos = ourPositions.find((p) => p.coin === coin);
+        const targetSize = expectedSizes[coin] ?? 0;
         const ourSize = ourPos ? parseFloat(ourPos.szi) : 0;
         const difference = Math.abs(targetSize - ourSize);
 
         if (difference > 0.01) {
           // Significant drift
-          drift[targetPos.coin] = {
+          drift[coin] = {
             ourSize: ourSize.toString(),
             targetSize: targetSize.toString(),
             difference: difference.toString(),
@@ -102,18 +118,6 @@ export class HealthChecker {
         }
       }
 
-      // Check for positions we have but target doesn't
-      for (const ourPos of ourPositions) {
-        const targetPos = targetPositions.find((p) => p.coin === ourPos.coin);
-        if (!targetPos) {
-          drift[ourPos.coin] = {
-            ourSize: ourPos.szi,
-            targetSize: '0',
-            difference: ourPos.szi,
-          };
-        }
-      }
-
       const result: HealthCheckResult = {
         timestamp: Date.now(),
         ourPositions,
@@ -121,8 +125,12 @@ export class HealthChecker {
         ourEquity,
         targetEquity,
         drift,
+        blackoutSkippedOpens: this.getBlackoutSkippedOpens?.(),
       };
 
+      // Opens skipped in blackouts since the previous check
+      const newSkippedOpens =
+        (result.blackoutSkippedOpens ?? 0) - (this.lastResult?.blackoutSkippedOpens ?? 0);
       this.lastResult = result;
 
       if (Object.keys(drift).length > 0) {
@@ -132,25 +140,31 @@ export class HealthChecker {
           targetEquity,
           ourPositions: ourPositions.length,
           targetPositions: targetPositions.length,
+          blackoutSkippedOpens: result.blackoutSkippedOpens,
         });
-        
-        // Send Telegram notification if drift detected
-        if (config.TELEGRAM_BOT_TOKEN && config.TELEGRAM_CHAT_ID) {
-          try {
-            const { sendHealthCheckNotification } = await import('../notifications/telegram.js');
-            await sendHealthCheckNotification(result);
-          } catch (error) {
-            logger.error('Failed to send health check notification', { error });
-          }
-        }
       } else {
         loggerUtils.logHealthCheck('healthy', 'Health check passed', {
           ourEquity,
           targetEquity,
           positionCount: ourPositions.length,
+          blackoutSkippedOpens: result.blackoutSkippedOpens,
         });
       }
 
+      // Send Telegram notification if drift detected or opens were skipped
+      if (
+        (Object.keys(drift).length > 0 || newSkippedOpens > 0) &&
+        config.TELEGRAM_BOT_TOKEN &&
+        config.TELEGRAM_CHAT_ID
+      ) {
+        try {
+          const { sendHealthCheckNotification } = await import('../notifications/telegram.js');
+          await sendHealthCheckNotification(result);
+        } catch (error) {
+          logger.error('Failed to send health check notification', { error });
+        }
+      }
+
       return result;
     } catch (error) {
       const formattedError = ErrorHandler.formatError(error);
@@ -163,7 +177,7 @@ export class HealthChecker {
       
       throw new NetworkError('Health check failed', {
         ourAddress: this.ourAddress,
-        targetAddress: this.targetAddress,
+        leaders: this.leaders.map((leader) => leader.address),
         originalError: formattedError.message,
       });
     }
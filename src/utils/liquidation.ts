@@ -0,0 +1,55 @@
+/**
+ * Liquidation estimates
+ * Follows Hyperliquid's documented formula:
+ *   liq_price = price - side * margin_available / position_size / (1 - l * side)
+ * where l is the maintenance margin rate and side is 1 for longs, -1 for shorts
+ */
+
+/**
+ * Predicted margin state for a position
+ */
+export interface LiquidationEstimate {
+  liquidationPx?: number; // undefined when the position cannot be liquidated
+  distancePercent: number; // Distance from mark to liquidation, % of mark
+  marginRatio: number; // Maintenance margin / account value
+}
+
+/**
+ * Maintenance margin rate for an asset
+ * Maintenance margin is half the initial margin at max leverage
+ */
+export function maintenanceMarginRate(maxLeverage: number): number {
+  return 1 / (2 * maxLeverage);
+}
+
+/**
+ * Liquidation price for a signed position size
+ * Returns undefined for flat positions and longs with more margin than notional
+ */
+export function estimateLiquidationPrice(
+  size: number,
+  markPx: number,
+  marginAvailable: number,
+  maintenanceRate: number
+): number | undefined {
+  if (size === 0) return undefined;
+
+  const side = Math.sign(size);
+  const liquidationPx =
+    markPx - (side * marginAvailable) / Math.abs(size) / (1 - maintenanceRate * side);
+
+  return liquidationPx > 0 ? liquidationPx : undefined;
+}
+
+/**
+ * Distance from mark to liquidation as % of mark
+ * Negative when the mark is already past the liquidation price
+ */
+export function liquidationDistancePercent(
+  size: number,
+  markPx: number,
+  liquidationPx: number | undefined
+): number {
+  if (liquidationPx === undefined || size === 0) return Infinity;
+  return ((Math.sign(size) * (markPx - liquidationPx)) / markPx) * 100;
+}
@@ -0,0 +1,83 @@
+import { RateLimitError } from './errors.js';
+
+/**
+ * Hyperliquid request weights
+ * allMids, clearinghouseState and orderStatus weigh 2, most other info
+ * requests 20, and each unbatched exchange action 1
+ */
+export const REQUEST_WEIGHTS = {
+  allMids: 2,
+  l2Book: 2,
+  clearinghouseState: 2,
+  orderStatus: 2,
+  frontendOpenOrders: 20,
+  meta: 20,
+  metaAndAssetCtxs: 20,
+  candleSnapshot: 20,
+  exchange: 1,
+} as const;
+
+/**
+ * Sliding-window request weight budget
+ * Throws RateLimitError when a request would exceed the budget, before the
+ * exchange starts rejecting requests
+ */
+export class RequestWeightLimiter {
+  private limit: number;
+  private windowMs: number;
+  private requests: Array<{ time: number; weight: number }> = [];
+  private used = 0;
+
+  constructor(limit: number, windowMs = 60_000) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Reserve weight for a request
+   */
+  consume(weight: number, request: string): void {
+    const now = Date.now();
+    this.prune(now);
+
+    if (this.used + weight > this.limit) {
+      // Wait until enough of the oldest requests leave the window
+      let freed = 0;
+      let retryAfter = this.windowMs;
+      for (const entry of this.requests) {
+        freed += entry.weight;
+        if (this.used - freed + weight <= this.limit) {
+          retryAfter = entry.time + this.windowMs - now;
+          break;
+        }
+      }
+
+      throw new RateLimitError(`Request weight limit reached for ${request}`, retryAfter, {
+        request,
+        weight,
+        used: this.used,
+        limit: this.limit,
+      });
+    }
+
+    this.requests.push({ time: now, weight });
+    this.used += weight;
+  }
+
+  /**
+   * Weight used in the current window
+   */
+  getUsage(): number {
+    this.prune(Date.now());
+    return this.used;
+  }
+
+  /**
+   * Drop requests that have left the window
+   */
+  private prune(now: number): void {
+    while (this.requests.length > 0 && this.requests[0].time <= now - this.windowMs) {
+      this.used -= this.requests.shift()!.weight;
+    }
+  }
+}
@@ -1,6 +1,18 @@
 import { config } from '../config.js';
-import { logger } from '../logger.js';
-import type { CopyTradeParams, FillEvent } from '../types.js';
+import { logger, loggerUtils } from '../logger.js';
+import { ValidationError } from './errors.js';
+import type {
+  AssetOverride,
+  Candle,
+  CopyTradeParams,
+  DirectionMode,
+  FillEvent,
+  LeaderConfig,
+  MarketType,
+  Position,
+  Side,
+  TradeAction,
+} from '../types.js';
 
 /**
  * Risk management utilities
@@ -11,14 +23,119 @@ import type { CopyTradeParams, FillEvent } from '../types.js';
  * Removes trailing zeros from a number string (Hyperliquid requirement)
  */
 export function removeTrailingZeros(value: string): string {
+  // Only strip fractional zeros, never those of an integer like "50000"
+  if (!value.includes('.')) {
+    return value;
+  }
   return value.replace(/\.?0+$/, '');
 }
 
 /**
- * Check if asset is blocked
+ * Round a size to the asset's size decimals
+ * Use 'down' for reduce-only orders so they never exceed the position
+ */
+export function roundSize(
+  size: number,
+  szDecimals: number,
+  mode: 'down' | 'nearest' = 'nearest'
+): string {
+  const factor = Math.pow(10, szDecimals);
+  // Nudge by epsilon so values like 0.29999999 don't floor a whole step
+  const scaled = size * factor;
+  const rounded = mode === 'down' ? Math.floor(scaled + 1e-9) : Math.round(scaled);
+  return removeTrailingZeros((rounded / factor).toFixed(szDecimals));
+}
+
+/**
+ * Round a price to a valid tick
+ * Hyperliquid allows at most 5 significant figures and (6 - szDecimals) decimals
+ * for perps (8 for spot); integer prices are always valid
+ */
+export function roundPrice(price: number, szDecimals: number, isSpot = false): string {
+  const maxDecimals = Math.max((isSpot ? 8 : 6) - szDecimals, 0);
+  if (Number.isInteger(price)) {
+    return price.toString();
+  }
+  const significant = parseFloat(price.toPrecision(5));
+  return removeTrailingZeros(significant.toFixed(maxDecimals));
+}
+
+/**
+ * Check if asset is blocked globally or for a specific leader, or missing from
+ * the allowlist when one is set
+ */
+export function isAssetBlocked(coin: string, leader?: LeaderConfig): boolean {
+  const asset = coin.toUpperCase();
+  return (
+    config.BLOCKED_ASSETS.includes(asset) ||
+    (config.ALLOWED_ASSETS.length > 0 && !config.ALLOWED_ASSETS.includes(asset)) ||
+    (leader?.blockedAssets.includes(asset) ?? false)
+  );
+}
+
+/**
+ * Per-coin overrides from ASSET_OVERRIDES
+ */
+export function getAssetOverride(coin: string): AssetOverride {
+  return config.ASSET_OVERRIDES[coin.toUpperCase()] ?? {};
+}
+
+/**
+ * Direction mode for a coin, from ASSET_OVERRIDES or DIRECTION_MODE
+ */
+export function getDirectionMode(coin: string): DirectionMode {
+  return getAssetOverride(coin).direction ?? config.DIRECTION_MODE;
+}
+
+/**
+ * Our side for a copied open after the coin's direction mode
+ * Returns null when the mode filters the leader's direction out
+ */
+export function applyDirectionMode(coin: string, leaderSide: Side): Side | null {
+  switch (getDirectionMode(coin)) {
+    case 'long_only':
+      return leaderSide === 'B' ? 'B' : null;
+    case 'short_only':
+      return leaderSide === 'A' ? 'A' : null;
+    case 'inverse':
+      return leaderSide === 'B' ? 'A' : 'B';
+    default:
+      return leaderSide;
+  }
+}
+
+/**
+ * Our signed position for a leader's signed position after the direction mode
+ */
+export function applyDirectionModeToSize(coin: string, leaderSize: number): number {
+  switch (getDirectionMode(coin)) {
+    case 'long_only':
+      return Math.max(leaderSize, 0);
+    case 'short_only':
+      return Math.min(leaderSize, 0);
+    case 'inverse':
+      return -leaderSize;
+    default:
+      return leaderSize;
+  }
+}
+
+/**
+ * Market category of a coin from its name
  */
-export function isAssetBlocked(coin: string): boolean {
-  return config.BLOCKED_ASSETS.includes(coin.toUpperCase());
+export function getMarketType(coin: string): MarketType {
+  if (coin.includes(':')) return 'hip3';
+  if (coin.startsWith('@') || coin.includes('/')) return 'spot';
+  return 'perp';
+}
+
+/**
+ * Check if a coin's market type is enabled in MARKET_TYPES
+ * Only those markets can be executed, so other coins are skipped for every
+ * action, reduces and closes included
+ */
+export function isMarketTypeCopied(coin: string): boolean {
+  return config.MARKET_TYPES.includes(getMarketType(coin));
 }
 
 /**
@@ -31,47 +148,85 @@ export function meetsMinimumNotional(size: string, price: string): boolean {
 }
 
 /**
- * Cap leverage to configured maximum
+ * Cap leverage to configured maximum, the asset's own maximum and any
+ * per-coin override
  */
-export function capLeverage(leverage: number): number {
-  return Math.min(leverage, config.MAX_LEVERAGE);
+export function capLeverage(leverage: number, assetMaxLeverage = Infinity, coin?: string): number {
+  const overrideMax = coin ? getAssetOverride(coin).maxLeverage : undefined;
+  return Math.min(leverage, config.MAX_LEVERAGE, assetMaxLeverage, overrideMax ?? Infinity);
 }
 
 /**
- * Cap position size to maximum percentage of equity
+ * Cap position size so its notional is at most MAX_POSITION_SIZE_PERCENT of equity
+ * Sizes are in coin units; the cap is applied in USD at the mark price.
+ * `ourEquity` is the whole account, never a leader's allocation, so the cap
+ * means the same everywhere it is applied
  */
 export function capPositionSize(
   calculatedSize: number,
-  ourEquity: number
+  markPrice: number,
+  ourEquity: number,
+  coin?: string
 ): number {
-  const maxSize = (ourEquity * config.MAX_POSITION_SIZE_PERCENT) / 100;
-  return Math.min(calculatedSize, maxSize);
+  const maxNotional = (ourEquity * config.MAX_POSITION_SIZE_PERCENT) / 100;
+  const notional = calculatedSize * markPrice;
+
+  if (notional <= maxNotional) {
+    return calculatedSize;
+  }
+
+  const cappedSize = maxNotional / markPrice;
+  loggerUtils.logTrade('info', 'Position size capped to max notional', {
+    coin,
+    requestedSize: calculatedSize,
+    cappedSize,
+    requestedNotional: notional,
+    maxNotional,
+    markPrice,
+  });
+  return cappedSize;
 }
 
 /**
  * Calculate position size based on equity ratio and multiplier
- * Formula: (ourEquity / targetEquity) * targetSize * multiplier
+ * Formula: (ourEquity * weight / targetEquity) * targetSize * markPrice * SIZE_MULTIPLIER
+ * * leader multiplier * coin override multiplier, computed in notional and converted
+ * back to coin units at the mark price.
+ * Pass our whole equity; the leader's weight scales the size, not the cap.
  */
 export function calculatePositionSize(
   targetSize: number,
+  markPrice: number,
   ourEquity: number,
-  targetEquity: number
+  targetEquity: number,
+  leader: Pick<LeaderConfig, 'weight' | 'sizeMultiplier'> = { weight: 1, sizeMultiplier: 1 },
+  coin?: string
 ): number {
+  const coinMultiplier = coin ? getAssetOverride(coin).sizeMultiplier ?? 1 : 1;
+  const multiplier = config.SIZE_MULTIPLIER * leader.sizeMultiplier * coinMultiplier;
+  const targetNotional = targetSize * markPrice;
+
   if (targetEquity === 0) {
     logger.warn('Target equity is zero, using target size directly');
-    return targetSize * config.SIZE_MULTIPLIER;
+    return capPositionSize(targetSize * multiplier, markPrice, ourEquity, coin);
   }
 
-  const ratio = ourEquity / targetEquity;
-  const calculatedSize = ratio * targetSize * config.SIZE_MULTIPLIER;
-  const cappedSize = capPositionSize(calculatedSize, ourEquity);
+  const ratio = (ourEquity * leader.weight) / targetEquity;
+  const notional = ratio * targetNotional * multiplier;
+  const calculatedSize = notional / markPrice;
+  const cappedSize = capPositionSize(calculatedSize, markPrice, ourEquity, coin);
 
   logger.debug('Position size calculation', {
+    coin,
     targetSize,
+    targetNotional,
+    markPrice,
     ourEquity,
+    weight: leader.weight,
     targetEquity,
     ratio,
-    multiplier: config.SIZE_MULTIPLIER,
+    multiplier,
+    notional,
     calculatedSize,
     cappedSize,
   });
@@ -80,22 +235,143 @@ export function calculatePositionSize(
 }
 
 /**
- * Determine trade action from fill event
+ * Average true range over the last `period` candles (simple average)
+ * Returns undefined when there are not enough candles
  */
-export function getTradeAction(fill: FillEvent): 'open' | 'reduce' | 'close' {
-  if (fill.dir === 'Open Long' || fill.dir === 'Open Short') {
-    return 'open';
+export function calculateAtr(candles: Candle[], period: number): number | undefined {
+  if (candles.length < period + 1) {
+    return undefined;
+  }
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    trueRanges.push(
+      Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose))
+    );
   }
-  if (fill.dir === 'Close Long' || fill.dir === 'Close Short') {
-    // Check if position is fully closed by comparing startPosition
-    const startPos = parseFloat(fill.startPosition);
-    const fillSize = parseFloat(fill.sz);
-    if (Math.abs(startPos) <= fillSize) {
-      return 'close';
+
+  const recent = trueRanges.slice(-period);
+  return recent.reduce((sum, range) => sum + range, 0) / recent.length;
+}
+
+/**
+ * Snapshot of a leader's account used to compute our target book
+ */
+export interface LeaderSnapshot {
+  leader: LeaderConfig;
+  equity: number;
+  positions: Position[];
+}
+
+/**
+ * Calculate the signed position size we should hold per coin
+ * Weighted sum over leaders of: (ourEquity * weight / leaderEquity) * szi * multipliers
+ */
+export function calculateTargetPositions(
+  snapshots: LeaderSnapshot[],
+  ourEquity: number
+): Record<string, number> {
+  const targets: Record<string, number> = {};
+
+  for (const { leader, equity, positions } of snapshots) {
+    if (equity <= 0) {
+      logger.warn('Leader equity is zero or negative, ignoring its positions', {
+        leader: leader.address,
+        equity,
+      });
+      continue;
+    }
+
+    const ratio =
+      ((ourEquity * leader.weight) / equity) * config.SIZE_MULTIPLIER * leader.sizeMultiplier;
+
+    for (const position of positions) {
+      if (isAssetBlocked(position.coin, leader) || !isMarketTypeCopied(position.coin)) {
+        continue;
+      }
+      const coinMultiplier = getAssetOverride(position.coin).sizeMultiplier ?? 1;
+      const size = applyDirectionModeToSize(
+        position.coin,
+        parseFloat(position.szi) * ratio * coinMultiplier
+      );
+      targets[position.coin] = (targets[position.coin] ?? 0) + size;
     }
-    return 'reduce';
   }
-  return 'reduce'; // Default fallback
+
+  return targets;
+}
+
+/**
+ * Determine trade action from fill event
+ * Throws ValidationError for directions we don't know how to copy
+ */
+export function getTradeAction(fill: FillEvent): TradeAction {
+  switch (fill.dir) {
+    case 'Open Long':
+    case 'Open Short':
+    case 'Buy':
+      return 'open';
+    case 'Close Long':
+    case 'Close Short':
+    case 'Sell': {
+      // Check if position is fully closed by comparing startPosition
+      const startPos = parseFloat(fill.startPosition);
+      const fillSize = parseFloat(fill.sz);
+      if (Math.abs(startPos) <= fillSize) {
+        return 'close';
+      }
+      return 'reduce';
+    }
+    case 'Long > Short':
+    case 'Short > Long':
+      return 'flip';
+    default:
+      throw new ValidationError(`Unknown fill direction: ${String(fill.dir)}`, {
+        coin: fill.coin,
+        hash: fill.hash,
+        dir: fill.dir,
+      });
+  }
+}
+
+/**
+ * Order side for a fill that opens or adds to a position
+ */
+export function getOpenSide(fill: FillEvent): Side {
+  return fill.dir === 'Open Long' || fill.dir === 'Buy' ? 'B' : 'A';
+}
+
+/**
+ * Split a flip fill into a close of the old side and an open of the new side
+ * e.g. startPosition 2, sz 5, "Long > Short" => Close Long 2, Open Short 3
+ */
+export function splitFlipFill(fill: FillEvent): FillEvent[] {
+  const startSize = Math.abs(parseFloat(fill.startPosition));
+  const fillSize = parseFloat(fill.sz);
+  const wasLong = fill.dir === 'Long > Short';
+
+  const legs: FillEvent[] = [];
+  if (startSize > 0) {
+    legs.push({
+      ...fill,
+      dir: wasLong ? 'Close Long' : 'Close Short',
+      sz: removeTrailingZeros(Math.min(startSize, fillSize).toFixed(8)),
+    });
+  }
+
+  const openSize = fillSize - startSize;
+  if (openSize > 0) {
+    legs.push({
+      ...fill,
+      dir: wasLong ? 'Open Short' : 'Open Long',
+      sz: removeTrailingZeros(openSize.toFixed(8)),
+      startPosition: '0',
+    });
+  }
+
+  return legs;
 }
 
 /**
@@ -127,10 +403,11 @@ export function validateTradeParams(
     };
   }
 
-  // Check position size cap
+  // Check position size cap; reducing a position never adds risk
+  // The executor shrinks opens to this cap first, so this is a final safeguard
   const positionValue = parseFloat(params.size) * parseFloat(price);
   const maxAllowed = (ourEquity * config.MAX_POSITION_SIZE_PERCENT) / 100;
-  if (positionValue > maxAllowed) {
+  if (!params.reduceOnly && positionValue > maxAllowed) {
     return {
       valid: false,
       reason: `Position value ${positionValue} exceeds ${maxAllowed} max`,
@@ -0,0 +1,31 @@
+import { config } from '../config.js';
+import type { ExchangeAdapter } from '../exchange/exchangeAdapter.js';
+import { calculateAtr } from './risk.js';
+import type { CandleInterval } from '../types.js';
+
+/**
+ * Candle interval lengths, used to size the candleSnapshot window
+ */
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '1h': 3_600_000,
+  '4h': 14_400_000,
+  '1d': 86_400_000,
+};
+
+/**
+ * ATR for a coin over ATR_PERIOD candles of ATR_INTERVAL
+ * Returns undefined when there are not enough candles
+ */
+export async function fetchAtr(
+  client: ExchangeAdapter,
+  coin: string
+): Promise<number | undefined> {
+  const intervalMs = INTERVAL_MS[config.ATR_INTERVAL];
+  // One extra candle for the first true range, plus the one still forming
+  const startTime = Date.now() - (config.ATR_PERIOD + 2) * intervalMs;
+  const candles = await client.getCandles(coin, config.ATR_INTERVAL, startTime);
+  return calculateAtr(candles, config.ATR_PERIOD);
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import { LEADER, expectPosition, loadBot, sleep } from './harness.js';
+
+const { createExchange, withTrader } = await loadBot({ BACKFILL_MODE: 'skip' });
+const exchange = createExchange();
+
+test('skips fills missed while stopped and keeps copying new ones', async () => {
+  await withTrader(exchange, async () => {
+    exchange.trade(LEADER, 'ETH', 'B', 1);
+    await expectPosition(exchange, 'ETH', 0.1);
+  });
+
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+
+  await withTrader(exchange, async () => {
+    await sleep(500);
+    await expectPosition(exchange, 'ETH', 0.1, 0);
+
+    exchange.trade(LEADER, 'BTC', 'B', 0.1);
+    await expectPosition(exchange, 'BTC', 0.01);
+  });
+});
+
+test('does not revisit a skipped fill on the next restart', async () => {
+  await withTrader(exchange, () => sleep(500));
+
+  await expectPosition(exchange, 'ETH', 0.1, 0);
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadBot } from './harness.js';
+
+await loadBot();
+const { loadConfig } = await import('../src/config.js');
+
+function blackoutHours(value: string) {
+  process.env.BLACKOUT_HOURS_UTC = value;
+  try {
+    return loadConfig().BLACKOUT_HOURS_UTC;
+  } finally {
+    delete process.env.BLACKOUT_HOURS_UTC;
+  }
+}
+
+test('parses blackout hours into minutes since midnight', () => {
+  assert.deepEqual(blackoutHours('13:30-14:00,22:00-24:00'), [
+    { start: 810, end: 840 },
+    { start: 1320, end: 1440 },
+  ]);
+});
+
+test('rejects blackout hours past the end of the day', () => {
+  assert.throws(() => blackoutHours('22:00-24:30'), /Invalid time window "22:00-24:30"/);
+  assert.throws(() => blackoutHours('25:00-02:00'), /Invalid time window/);
+  assert.throws(() => blackoutHours('12:00-12:60'), /Invalid time window/);
+});
@@ -0,0 +1,36 @@
+import { after, before, test } from 'node:test';
+import { LEADER, expectPosition, loadBot, sleep } from './harness.js';
+
+// $300 per coin on our $10k account, and one coin at a time
+const { createExchange, startTrader } = await loadBot({
+  MAX_COIN_EXPOSURE_PERCENT: '3',
+  MAX_CONCURRENT_TRADES: '1',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('caps an open at the per-coin exposure limit', async () => {
+  // 0.2 ETH ($600) at the equity ratio
+  exchange.trade(LEADER, 'ETH', 'B', 2);
+  await expectPosition(exchange, 'ETH', 0.1);
+});
+
+test('skips opens in a new coin past the concurrent trade limit', async () => {
+  exchange.trade(LEADER, 'BTC', 'B', 0.1);
+  await sleep(500);
+  await expectPosition(exchange, 'BTC', 0, 0);
+});
+
+test('skips increases once the coin is at its cap', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  await sleep(500);
+  await expectPosition(exchange, 'ETH', 0.1, 0);
+});
@@ -0,0 +1,124 @@
+/**
+ * Offline test harness
+ * The config module reads the environment once on import, so each test file
+ * calls loadBot() with its settings before touching anything else. Node's test
+ * runner gives every file its own process.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Wallet } from 'ethers';
+import type { MockExchange } from '../src/exchange/mockExchange.js';
+
+export const LEADER = '0x00000000000000000000000000000000000000aa';
+export const OUR_ADDRESS = '0x00000000000000000000000000000000000000bb';
+
+/**
+ * Configure the bot for the in-memory exchange and import it
+ * Journal and risk state go to a fresh temporary directory
+ */
+export async function loadBot(env: Record<string, string> = {}) {
+  const stateDir = mkdtempSync(join(tmpdir(), 'copy-test-'));
+  Object.assign(process.env, {
+    PRIVATE_KEY: Wallet.createRandom().privateKey,
+    TARGET_WALLETS: JSON.stringify([{ address: LEADER }]),
+    TESTNET: 'true',
+    STATE_FILE: join(stateDir, 'trade-journal.jsonl'),
+    RISK_STATE_FILE: join(stateDir, 'risk-state.json'),
+    LOG_LEVEL: 'error',
+    FILL_COALESCE_MS: '100',
+    ...env,
+  });
+  delete process.env.TARGET_WALLET;
+  delete process.env.TELEGRAM_BOT_TOKEN;
+
+  const { config } = await import('../src/config.js');
+  const { CopyTrader } = await import('../src/copyTrader.js');
+  const { MockExchange } = await import('../src/exchange/mockExchange.js');
+
+  return {
+    config,
+    /**
+     * Exchange where the leader holds $100k and we hold $10k, so opens copy at a tenth
+     */
+    createExchange: () =>
+      new MockExchange({
+        address: OUR_ADDRESS,
+        assets: [
+          { name: 'BTC', szDecimals: 5, maxLeverage: 40 },
+          { name: 'ETH', szDecimals: 4, maxLeverage: 25 },
+        ],
+        prices: { BTC: 60_000, ETH: 3_000 },
+        balances: { [LEADER]: 100_000, [OUR_ADDRESS]: 10_000 },
+      }),
+    /**
+     * Copy trader following LEADER, started
+     */
+    startTrader: async (exchange: MockExchange) => {
+      const trader = new CopyTrader(exchange, config.LEADERS);
+      await trader.start();
+      return trader;
+    },
+    /**
+     * Run steps with a copy trader started, stopping it even when a step fails
+     * so its timers never keep the test process alive
+     */
+    withTrader: async (exchange: MockExchange, steps: () => Promise<void>) => {
+      const trader = new CopyTrader(exchange, config.LEADERS);
+      await trader.start();
+      try {
+        await steps();
+      } finally {
+        await trader.stop();
+      }
+    },
+  };
+}
+
+/**
+ * Signed size of a wallet's position in a coin, 0 when flat
+ */
+async function positionSize(
+  exchange: MockExchange,
+  coin: string,
+  address: string = OUR_ADDRESS
+): Promise<number> {
+  const positions = await exchange.getPositions(address);
+  return parseFloat(positions.find((p) => p.coin === coin)?.szi ?? '0');
+}
+
+/**
+ * Orders we have sent for a coin
+ */
+export function ourOrders(exchange: MockExchange, coin: string) {
+  return exchange.getOrders().filter((order) => order.owner === OUR_ADDRESS && order.coin === coin);
+}
+
+/**
+ * Wait up to timeoutMs for our position in a coin to reach expected, within 1%,
+ * and fail if it doesn't
+ */
+export async function expectPosition(
+  exchange: MockExchange,
+  coin: string,
+  expected: number,
+  timeoutMs = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  let size = await positionSize(exchange, coin);
+  while (!approxEqual(size, expected) && Date.now() < deadline) {
+    await sleep(25);
+    size = await positionSize(exchange, coin);
+  }
+  assert.ok(approxEqual(size, expected), `Expected ${coin} position ${expected}, got ${size}`);
+}
+
+function approxEqual(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.abs(expected) * 0.01 + 1e-9;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
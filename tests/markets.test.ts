@@ -0,0 +1,51 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LEADER, OUR_ADDRESS, expectPosition, loadBot, ourOrders, sleep } from './harness.js';
+
+const { config } = await loadBot({ COPY_MODE: 'mirror' });
+const { CopyTrader } = await import('../src/copyTrader.js');
+const { MockExchange } = await import('../src/exchange/mockExchange.js');
+
+// A HIP-3 market next to ETH, which only the real exchange would refuse to trade
+const exchange = new MockExchange({
+  address: OUR_ADDRESS,
+  assets: [
+    { name: 'ETH', szDecimals: 4, maxLeverage: 25 },
+    { name: 'xyz:TSLA', szDecimals: 3, maxLeverage: 10 },
+  ],
+  prices: { ETH: 3_000, 'xyz:TSLA': 400 },
+  balances: { [LEADER]: 100_000, [OUR_ADDRESS]: 10_000 },
+});
+const trader = new CopyTrader(exchange, config.LEADERS);
+
+before(async () => {
+  exchange.trade(LEADER, 'xyz:TSLA', 'B', 10);
+  await exchange.placeOrder({
+    coin: 'xyz:TSLA',
+    side: 'B',
+    sz: '1',
+    limitPx: '410',
+    orderType: 'Limit',
+    tif: 'Ioc',
+    reduceOnly: false,
+  });
+  await trader.start();
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('skips reduces and closes in markets that are not copied', async () => {
+  exchange.trade(LEADER, 'xyz:TSLA', 'A', 5);
+  exchange.trade(LEADER, 'xyz:TSLA', 'A', 5);
+  await sleep(500);
+
+  await expectPosition(exchange, 'xyz:TSLA', 1, 0);
+  assert.equal(ourOrders(exchange, 'xyz:TSLA').length, 1);
+});
+
+test('still copies perp fills', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  await expectPosition(exchange, 'ETH', 0.1);
+});
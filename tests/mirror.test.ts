@@ -0,0 +1,58 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LEADER, expectPosition, loadBot, ourOrders, sleep } from './harness.js';
+
+// Three closes in a row would otherwise switch ETH to net-position sync
+const { createExchange, startTrader } = await loadBot({
+  COPY_MODE: 'mirror',
+  FILL_COALESCE_MS: '200',
+  CHURN_CYCLE_THRESHOLD: '100',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('copies an open at the equity ratio', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  await expectPosition(exchange, 'ETH', 0.1);
+});
+
+test('copies a partial close in proportion', async () => {
+  exchange.trade(LEADER, 'ETH', 'A', 0.5);
+  await expectPosition(exchange, 'ETH', 0.05);
+});
+
+test('copies a flip through zero', async () => {
+  exchange.trade(LEADER, 'ETH', 'A', 1.5);
+  await expectPosition(exchange, 'ETH', -0.1);
+});
+
+test('copies a close', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  await expectPosition(exchange, 'ETH', 0);
+});
+
+test('coalesces the fills of one leader order into one copy order', async () => {
+  const fills = exchange.tradeInParts(LEADER, 'BTC', 'B', [0.2, 0.15, 0.15]);
+  assert.equal(new Set(fills.map((fill) => fill.oid)).size, 1);
+
+  await expectPosition(exchange, 'BTC', 0.05);
+  assert.equal(ourOrders(exchange, 'BTC').length, 1);
+});
+
+test('never copies a replayed fill twice', async () => {
+  const fill = exchange.trade(LEADER, 'BTC', 'B', 0.1);
+  await expectPosition(exchange, 'BTC', 0.06);
+
+  exchange.replayFill(LEADER, fill);
+  await sleep(500);
+  await expectPosition(exchange, 'BTC', 0.06, 0);
+  assert.equal(ourOrders(exchange, 'BTC').length, 2);
+});
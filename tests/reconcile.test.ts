@@ -0,0 +1,47 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LEADER, expectPosition, loadBot, ourOrders, sleep } from './harness.js';
+
+// Passes run on startup and on each leader fill; the timer never fires during the test
+const { createExchange, startTrader } = await loadBot({
+  COPY_MODE: 'reconcile',
+  RECONCILE_INTERVAL: '3600',
+  RECONCILE_TOLERANCE_PERCENT: '5',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 2);
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test("adopts the leader's positions on startup", async () => {
+  await expectPosition(exchange, 'ETH', 0.2);
+});
+
+test("converges on the leader's positions after fills", async () => {
+  exchange.trade(LEADER, 'ETH', 'A', 1);
+  await expectPosition(exchange, 'ETH', 0.1);
+
+  exchange.trade(LEADER, 'BTC', 'A', 0.5);
+  await expectPosition(exchange, 'BTC', -0.05);
+});
+
+test('leaves differences within the tolerance alone', async () => {
+  const orders = ourOrders(exchange, 'ETH').length;
+  exchange.trade(LEADER, 'ETH', 'B', 0.02);
+  await sleep(500);
+
+  await expectPosition(exchange, 'ETH', 0.1, 0);
+  assert.equal(ourOrders(exchange, 'ETH').length, orders);
+});
+
+test('closes positions the leader has closed', async () => {
+  exchange.trade(LEADER, 'BTC', 'B', 0.5);
+  await expectPosition(exchange, 'BTC', 0);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LEADER, expectPosition, loadBot, ourOrders, sleep } from './harness.js';
+import type { FillEvent } from '../src/types.js';
+
+// Each trader started here reads the journal the previous one wrote
+const { createExchange, withTrader } = await loadBot({ BACKFILL_MODE: 'execute' });
+const exchange = createExchange();
+
+test('never copies a fill again after a restart', async () => {
+  let fill: FillEvent | undefined;
+  await withTrader(exchange, async () => {
+    fill = exchange.trade(LEADER, 'ETH', 'B', 1);
+    await expectPosition(exchange, 'ETH', 0.1);
+  });
+
+  await withTrader(exchange, async () => {
+    exchange.replayFill(LEADER, fill!);
+    await sleep(500);
+  });
+
+  await expectPosition(exchange, 'ETH', 0.1, 0);
+  assert.equal(ourOrders(exchange, 'ETH').length, 1);
+});
+
+test('backfills only the fills missed while stopped', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+
+  await withTrader(exchange, async () => {
+    await expectPosition(exchange, 'ETH', 0.2);
+    await sleep(500);
+  });
+
+  await expectPosition(exchange, 'ETH', 0.2, 0);
+  assert.equal(ourOrders(exchange, 'ETH').length, 2);
+});
+
+test('backfills a missed fill in the same millisecond as the last copied one', async () => {
+  let copied: FillEvent | undefined;
+  await withTrader(exchange, async () => {
+    copied = exchange.trade(LEADER, 'BTC', 'B', 0.1);
+    await expectPosition(exchange, 'BTC', 0.01);
+  });
+
+  // Parts of one order often land in the same millisecond
+  const missed = exchange.trade(LEADER, 'BTC', 'B', 0.1);
+  missed.time = copied!.time;
+
+  await withTrader(exchange, async () => {
+    await expectPosition(exchange, 'BTC', 0.02);
+  });
+});
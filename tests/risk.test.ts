@@ -0,0 +1,38 @@
+import { after, before, test } from 'node:test';
+import { LEADER, expectPosition, loadBot } from './harness.js';
+import { NetworkError } from '../src/utils/errors.js';
+
+const { createExchange, startTrader } = await loadBot({
+  MAX_DAILY_LOSS_PERCENT: '1',
+  FLATTEN_ON_TRIP: 'true',
+  RISK_CHECK_INTERVAL: '1',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('retries a failed flatten on the next risk check', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 10);
+  await expectPosition(exchange, 'ETH', 1);
+
+  // The first price lookup after the trip fails
+  const getAllMids = exchange.getAllMids.bind(exchange);
+  let failures = 1;
+  exchange.getAllMids = async () => {
+    if (failures-- > 0) {
+      throw new NetworkError('Failed to fetch mid prices');
+    }
+    return getAllMids();
+  };
+
+  // $200 (2%) down on our $10k
+  exchange.setPrice('ETH', 2800);
+  await expectPosition(exchange, 'ETH', 0, 5000);
+});
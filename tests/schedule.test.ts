@@ -0,0 +1,59 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LEADER, OUR_ADDRESS, expectPosition, loadBot, sleep } from './harness.js';
+
+// A calendar event right now keeps the whole test inside a blackout window
+const calendarFile = join(mkdtempSync(join(tmpdir(), 'copy-test-')), 'calendar.json');
+writeFileSync(calendarFile, JSON.stringify([{ name: 'Test event', time: new Date().toISOString() }]));
+
+const { config, createExchange, startTrader } = await loadBot({
+  COPY_MODE: 'reconcile',
+  RECONCILE_INTERVAL: '3600',
+  BLACKOUT_CALENDAR_FILE: calendarFile,
+  BLACKOUT_EVENT_MINUTES: '60',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  // We hold a BTC long the leader has flipped short
+  await exchange.placeOrder({
+    coin: 'BTC',
+    side: 'B',
+    sz: '0.01',
+    limitPx: '61000',
+    orderType: 'Limit',
+    tif: 'Ioc',
+    reduceOnly: false,
+  });
+  exchange.trade(LEADER, 'BTC', 'A', 0.5);
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('reconciliation skips opens inside a blackout window', async () => {
+  await sleep(500);
+  await expectPosition(exchange, 'ETH', 0, 0);
+  assert.ok(trader.getBlackoutSkippedOpens() > 0);
+});
+
+test('reconciliation closes the old side of a flip inside a blackout window', async () => {
+  await expectPosition(exchange, 'BTC', 0);
+});
+
+test('health check reports the opens skipped in blackouts', async () => {
+  const { HealthChecker } = await import('../src/utils/healthCheck.js');
+  const healthChecker = new HealthChecker(exchange, OUR_ADDRESS, config.LEADERS, () =>
+    trader.getBlackoutSkippedOpens()
+  );
+
+  const result = await healthChecker.runHealthCheck();
+  assert.equal(result.blackoutSkippedOpens, trader.getBlackoutSkippedOpens());
+});
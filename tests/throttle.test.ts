@@ -0,0 +1,29 @@
+import { after, before, test } from 'node:test';
+import { LEADER, expectPosition, loadBot } from './harness.js';
+
+// A third close or flip within the window switches the coin to net-position sync
+const { createExchange, startTrader } = await loadBot({
+  CHURN_CYCLE_THRESHOLD: '3',
+  NET_SYNC_INTERVAL: '3600',
+});
+const exchange = createExchange();
+let trader: Awaited<ReturnType<typeof startTrader>>;
+
+before(async () => {
+  trader = await startTrader(exchange);
+});
+
+after(async () => {
+  await trader.stop();
+});
+
+test('counts a flip as one churn cycle', async () => {
+  exchange.trade(LEADER, 'ETH', 'B', 1);
+  await expectPosition(exchange, 'ETH', 0.1);
+
+  exchange.trade(LEADER, 'ETH', 'A', 2);
+  await expectPosition(exchange, 'ETH', -0.1);
+
+  exchange.trade(LEADER, 'ETH', 'B', 2);
+  await expectPosition(exchange, 'ETH', 0.1);
+});